@@ -7,8 +7,13 @@ import type {
   AsyncRuleObject,
   Rule,
 } from "./types/mapper.js";
+import type { BatchOptions, BatchResult } from "./types/batch.js";
+import type { StreamOptions } from "./types/stream.js";
+import type { SerializedStructure } from "./types/registry.js";
 import { AsyncRuleProcessor } from "./mapper/rule-processor.js";
+import { ArrayInsertions } from "./mapper/appends.js";
 import { ConcurrencyController } from "./mapper/concurrency-controller.js";
+import { mapRecords, resolveStreamOptions } from "./mapper/record-stream.js";
 
 export class AsyncMapper<
   TSource = UnknownSource,
@@ -17,9 +22,12 @@ export class AsyncMapper<
   private asyncStructure: AsyncStructure;
   private ruleProcessor: AsyncRuleProcessor<TSource, TTarget>;
 
-  constructor(structure: AsyncStructure, options?: Partial<MapperOptions>) {
+  constructor(
+    structure: AsyncStructure | SerializedStructure,
+    options?: Partial<MapperOptions>,
+  ) {
     super(structure as Rule[], options);
-    this.asyncStructure = structure;
+    this.asyncStructure = this.structure as AsyncStructure;
     this.ruleProcessor = new AsyncRuleProcessor(this.outpath, this.options);
   }
 
@@ -27,40 +35,106 @@ export class AsyncMapper<
     return this.asyncStructure;
   }
 
-  setAsyncStructure(structure: AsyncStructure): void {
-    this.structure = structure as Rule[];
-    this.asyncStructure = structure;
+  setAsyncStructure(structure: AsyncStructure | SerializedStructure): void {
+    this.structure = this.prepareStructure(structure as Rule[]);
+    this.asyncStructure = this.structure as AsyncStructure;
   }
 
   async map(source: TSource, target?: TTarget): Promise<TTarget> {
-    let result = target ?? ({} as TTarget);
+    let result = this.initialTarget(target);
     result = this.applyAutomap(source, result);
+    const errors = this.options.collectErrors ? [] : null;
+    const writes = this.options.targetSchema ? [] : null;
+    const insertions = new ArrayInsertions();
+    const original = this.options.immutable ? (target ?? null) : null;
 
-    const processRule = async (rule: AsyncRule): Promise<void> => {
-      const ruleObj = this.normalizeRule(rule as Rule);
+    const processRule = async (index: number): Promise<void> => {
+      const ruleObj = this.normalizeRule(this.asyncStructure[index] as Rule);
 
       await this.ruleProcessor.processRule(
         ruleObj,
         source,
         result,
-        (src, path) => this.extractData(src, path),
+        (src: TSource, path: string, detectNoMatch?: boolean) =>
+          this.extractData(src, path, detectNoMatch),
+        { index, errors, writes, order: [index], insertions, original },
       );
     };
 
+    const indexes = [...this.asyncStructure.keys()];
+
     if (this.options.parallelRun) {
       await ConcurrencyController.executeWithLimitedConcurrency(
-        this.asyncStructure,
+        indexes,
         processRule,
         this.options.parallelJobsLimit,
       );
     } else {
-      for (const rule of this.asyncStructure) {
-        await processRule(rule);
+      for (const index of indexes) {
+        await processRule(index);
       }
     }
 
+    this.throwCollectedErrors(errors, result);
+    this.validateResult(result, writes);
     return result;
   }
+
+  async mapMany(
+    sources: TSource[],
+    options: Partial<BatchOptions> & { collectFailures: true },
+  ): Promise<BatchResult<TSource, TTarget>>;
+  async mapMany(
+    sources: TSource[],
+    options?: Partial<BatchOptions>,
+  ): Promise<TTarget[]>;
+  async mapMany(
+    sources: TSource[],
+    options?: Partial<BatchOptions>,
+  ): Promise<TTarget[] | BatchResult<TSource, TTarget>> {
+    const batch: BatchResult<TSource, TTarget> = {
+      results: new Array(sources.length).fill(undefined),
+      failures: [],
+    };
+
+    const mapRecord = async (index: number): Promise<void> => {
+      const source = sources[index] as TSource;
+
+      try {
+        batch.results[index] = await this.map(source);
+      } catch (error) {
+        if (!options?.collectFailures) {
+          throw error;
+        }
+
+        batch.failures.push({ index, source, error });
+      }
+    };
+
+    await ConcurrencyController.executeWithLimitedConcurrency(
+      [...sources.keys()],
+      mapRecord,
+      options?.recordsLimit ?? 0,
+    );
+
+    if (!options?.collectFailures) {
+      return batch.results as TTarget[];
+    }
+
+    batch.failures.sort((a, b) => a.index - b.index);
+    return batch;
+  }
+
+  mapStream(
+    sources: AsyncIterable<TSource> | Iterable<TSource>,
+    options?: Partial<StreamOptions>,
+  ): AsyncGenerator<TTarget, void, undefined> {
+    return mapRecords(
+      sources,
+      (source) => this.map(source),
+      resolveStreamOptions(options),
+    );
+  }
 }
 
 export async function mapObjectAsync<
@@ -77,3 +151,36 @@ export async function mapObjectAsync<
     target,
   );
 }
+
+export async function mapObjectsAsync<
+  TSource = UnknownSource,
+  TTarget = UnknownTarget,
+>(
+  structure: AsyncStructure,
+  sources: TSource[],
+  options: Partial<MapperOptions> | undefined,
+  batchOptions: Partial<BatchOptions> & { collectFailures: true },
+): Promise<BatchResult<TSource, TTarget>>;
+export async function mapObjectsAsync<
+  TSource = UnknownSource,
+  TTarget = UnknownTarget,
+>(
+  structure: AsyncStructure,
+  sources: TSource[],
+  options?: Partial<MapperOptions>,
+  batchOptions?: Partial<BatchOptions>,
+): Promise<TTarget[]>;
+export async function mapObjectsAsync<
+  TSource = UnknownSource,
+  TTarget = UnknownTarget,
+>(
+  structure: AsyncStructure,
+  sources: TSource[],
+  options?: Partial<MapperOptions>,
+  batchOptions?: Partial<BatchOptions>,
+): Promise<TTarget[] | BatchResult<TSource, TTarget>> {
+  return new AsyncMapper<TSource, TTarget>(structure, options).mapMany(
+    sources,
+    batchOptions,
+  );
+}
@@ -4,6 +4,7 @@ import {
   type AutomapperOptions,
 } from "./types/automapper.js";
 import type { UnknownSource, UnknownTarget } from "./types/generic.js";
+import { UNSAFE_KEYS } from "./mapper/unsafe-keys.js";
 
 export class Automapper<TSource = UnknownSource, TTarget = UnknownTarget> {
   private configuration: AutomapperOptions;
@@ -11,6 +12,7 @@ export class Automapper<TSource = UnknownSource, TTarget = UnknownTarget> {
   constructor(configuration: Partial<AutomapperOptions> = {}) {
     this.configuration = {
       checkType: false,
+      hardened: true,
       ...configuration,
     };
   }
@@ -49,6 +51,10 @@ export class Automapper<TSource = UnknownSource, TTarget = UnknownTarget> {
       return false;
     }
 
+    if (this.configuration.hardened && UNSAFE_KEYS.has(key)) {
+      return false;
+    }
+
     if (!this.configuration.checkType) {
       return true;
     }
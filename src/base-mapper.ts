@@ -1,9 +1,33 @@
 import { JSONPath } from "jsonpath-plus";
 import { OutPath } from "./outpath.js";
 import type { UnknownSource, UnknownTarget } from "./types/generic.js";
-import type { MapperOptions, Rule, RuleObject } from "./types/mapper.js";
+import type { SerializedStructure } from "./types/registry.js";
+import type {
+  MapperOptions,
+  Rule,
+  RuleGroup,
+  RuleObject,
+} from "./types/mapper.js";
 import { Automapper } from "./automapper.js";
 import { AutomapArrayStrategy } from "./types/automapper.js";
+import { normalizeRule } from "./mapper/normalize-rule.js";
+import { NO_MATCH } from "./mapper/no-match.js";
+import { findTargetWrite, type TargetWrite } from "./mapper/writes.js";
+import { shallowCopy } from "./mapper/immutable.js";
+import { validateTarget } from "./schema.js";
+import { validateStructure } from "./structure.js";
+import {
+  checkReferences,
+  loadStructure,
+  serializeStructure,
+} from "./serialization.js";
+import {
+  ExtractionError,
+  MappingAggregateError,
+  StructureError,
+  ValidationError,
+  type MappingError,
+} from "./errors.js";
 
 export abstract class BaseMapper<
   TSource = UnknownSource,
@@ -11,14 +35,19 @@ export abstract class BaseMapper<
 > {
   protected structure: Rule[];
   protected options: MapperOptions;
+  protected ownOptions: Partial<MapperOptions>;
   protected outpath: OutPath<TTarget>;
 
   abstract map(source: TSource, target?: TTarget): TTarget | Promise<TTarget>;
 
-  protected constructor(structure: Rule[], options?: Partial<MapperOptions>) {
-    this.structure = structure;
+  protected constructor(
+    structure: Rule[] | SerializedStructure,
+    options?: Partial<MapperOptions>,
+  ) {
+    this.ownOptions = { ...options };
     this.options = this.mergeWithDefaults(options);
     this.outpath = new OutPath<TTarget>();
+    this.structure = this.prepareStructure(structure);
   }
 
   getOptions(): MapperOptions {
@@ -26,15 +55,25 @@ export abstract class BaseMapper<
   }
 
   setOptions(options: Partial<MapperOptions>): void {
+    this.ownOptions = { ...options };
     this.options = this.mergeWithDefaults(options);
   }
 
+  // options used when this mapper runs inside a parent rule: its own options override the parent ones
+  getNestedOptions(parentOptions: MapperOptions): MapperOptions {
+    return this.mergeWithDefaults({ ...parentOptions, ...this.ownOptions });
+  }
+
   getStructure(): Rule[] {
     return this.structure;
   }
 
-  setStructure(structure: Rule[]): void {
-    this.structure = structure;
+  setStructure(structure: Rule[] | SerializedStructure): void {
+    this.structure = this.prepareStructure(structure);
+  }
+
+  serializeStructure(): SerializedStructure {
+    return serializeStructure(this.structure);
   }
 
   get assumeRoot(): boolean {
@@ -43,6 +82,7 @@ export abstract class BaseMapper<
 
   set assumeRoot(value: boolean) {
     this.options.assumeRoot = value;
+    this.ownOptions.assumeRoot = value;
   }
 
   get automap(): boolean {
@@ -51,6 +91,7 @@ export abstract class BaseMapper<
 
   set automap(value: boolean) {
     this.options.automap = value;
+    this.ownOptions.automap = value;
   }
 
   get skipNull(): boolean {
@@ -59,6 +100,7 @@ export abstract class BaseMapper<
 
   set skipNull(value: boolean) {
     this.options.skipNull = value;
+    this.ownOptions.skipNull = value;
   }
 
   get skipUndefined(): boolean {
@@ -67,6 +109,7 @@ export abstract class BaseMapper<
 
   set skipUndefined(value: boolean) {
     this.options.skipUndefined = value;
+    this.ownOptions.skipUndefined = value;
   }
 
   get parallelRun(): boolean {
@@ -75,6 +118,7 @@ export abstract class BaseMapper<
 
   set parallelRun(value: boolean) {
     this.options.parallelRun = value;
+    this.ownOptions.parallelRun = value;
   }
 
   protected mergeWithDefaults(options?: Partial<MapperOptions>): MapperOptions {
@@ -89,16 +133,50 @@ export abstract class BaseMapper<
       jsonPathOptions: options?.jsonPathOptions ?? null,
       parallelRun: options?.parallelRun ?? false,
       parallelJobsLimit: options?.parallelJobsLimit ?? 0,
+      compiled: options?.compiled ?? false,
+      collectErrors: options?.collectErrors ?? false,
+      strict: options?.strict ?? false,
+      targetSchema: options?.targetSchema ?? null,
+      validateOnCreate: options?.validateOnCreate ?? false,
+      registry: options?.registry ?? null,
+      wildcardLengthMismatch: options?.wildcardLengthMismatch ?? "extend",
+      write: options?.write ?? "overwrite",
+      immutable: options?.immutable ?? false,
+      hardened: options?.hardened ?? true,
     };
   }
 
-  protected normalizeRule(rule: Rule): RuleObject {
-    if (Array.isArray(rule)) {
-      const [source, target] = rule;
-      return { source, target };
+  // loads named functions with the registry, or rejects them without one, then validates the structure when asked to
+  protected prepareStructure(structure: Rule[] | SerializedStructure): Rule[] {
+    let prepared: Rule[];
+    if (this.options.registry) {
+      prepared = loadStructure(structure, this.options.registry);
+    } else {
+      checkReferences(structure);
+      prepared = structure as Rule[];
+    }
+
+    if (this.options.validateOnCreate) {
+      const diagnostics = validateStructure(prepared);
+      if (diagnostics.some((diagnostic) => diagnostic.severity === "error")) {
+        throw new StructureError(diagnostics);
+      }
+    }
+
+    return prepared;
+  }
+
+  protected normalizeRule(rule: Rule): RuleObject | RuleGroup {
+    return normalizeRule(rule);
+  }
+
+  // in immutable mode, the given target is copied and its objects are copied when written
+  protected initialTarget(target?: TTarget): TTarget {
+    if (target === undefined) {
+      return {} as TTarget;
     }
 
-    return rule;
+    return this.options.immutable ? shallowCopy(target) : target;
   }
 
   protected applyAutomap(source: TSource, result: TTarget): TTarget {
@@ -107,6 +185,7 @@ export abstract class BaseMapper<
         checkType: this.options.automapCheckType,
         automapArrayStrategy:
           this.options.automapArrayStrategy ?? AutomapArrayStrategy.Replace,
+        hardened: this.options.hardened,
       });
 
       result = automapper.map(source as any, result as any) as TTarget;
@@ -115,17 +194,71 @@ export abstract class BaseMapper<
     return result;
   }
 
-  protected extractData(source: TSource, jsonPath: string): any {
+  protected throwCollectedErrors(
+    errors: MappingError[] | null,
+    result: TTarget,
+  ): void {
+    if (errors && errors.length > 0) {
+      errors.sort((a, b) => (a.index ?? 0) - (b.index ?? 0));
+      throw new MappingAggregateError(errors, result);
+    }
+  }
+
+  protected validateResult(
+    result: TTarget,
+    writes: TargetWrite[] | null,
+  ): void {
+    if (!this.options.targetSchema) {
+      return;
+    }
+
+    const { issues } = validateTarget(this.options.targetSchema, result);
+    if (issues.length === 0) {
+      return;
+    }
+
+    for (const issue of issues) {
+      const write = findTargetWrite(writes ?? [], issue.path);
+      if (write) {
+        issue.rule = write.rule;
+        issue.index = write.index;
+      }
+    }
+
+    throw new ValidationError(issues, result);
+  }
+
+  // returns NO_MATCH when the JSONPath matches nothing, only looked for when detectNoMatch is set
+  protected extractData(
+    source: TSource,
+    jsonPath: string,
+    detectNoMatch = false,
+  ): any {
+    const jsonPathOptions = {
+      ...(this.options.jsonPathOptions ?? {}),
+      path: jsonPath,
+      json: source as any,
+    };
+
     try {
-      return JSONPath({
-        ...(this.options.jsonPathOptions ?? {}),
-        path: jsonPath,
-        json: source as any,
+      const data = JSONPath({ ...jsonPathOptions, wrap: false });
+      if (data !== undefined || !detectNoMatch) {
+        return data;
+      }
+
+      // undefined is returned for no match as well as for a matched undefined value, paths are never undefined
+      const paths = JSONPath({
+        ...jsonPathOptions,
         wrap: false,
+        resultType: "path",
+        callback: undefined,
       });
+
+      return paths === undefined ? NO_MATCH : data;
     } catch (error) {
-      throw new Error(
+      throw new ExtractionError(
         `Failed to extract data using JSONPath '${jsonPath}': ${error instanceof Error ? error.message : String(error)}`,
+        { source: jsonPath, cause: error },
       );
     }
   }
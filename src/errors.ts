@@ -0,0 +1,197 @@
+import type { AsyncRuleObject, RuleObject } from "./types/mapper.js";
+import type { SchemaIssue } from "./types/schema.js";
+import type { StructureDiagnostic } from "./types/structure.js";
+import { describeTargets } from "./mapper/targets.js";
+
+// step of the rule processing that failed
+export type MappingPhase =
+  | "rule"
+  | "extract"
+  | "condition"
+  | "filter"
+  | "transform"
+  | "failOn"
+  | "write";
+
+export type MappingErrorDetails = {
+  rule?: RuleObject | AsyncRuleObject | undefined; // normalized failing rule
+  index?: number | undefined; // index of the rule in the mapped structure
+  source?: string | undefined; // normalized JSONPath of the failing rule
+  target?: string | undefined; // full target path of the failing rule
+  value?: any; // offending value
+  step?: number | undefined; // index of the failing step of a transform pipeline
+  cause?: unknown;
+};
+
+export class MappingError extends Error {
+  phase: MappingPhase = "rule";
+  rule: RuleObject | AsyncRuleObject | undefined;
+  index: number | undefined;
+  source: string | undefined;
+  target: string | undefined;
+  value: any;
+  step: number | undefined;
+  cause: unknown;
+
+  constructor(message: string, details: MappingErrorDetails = {}) {
+    super(message);
+    this.name = "MappingError";
+    this.rule = details.rule;
+    this.index = details.index;
+    this.source = details.source;
+    this.target = details.target;
+    this.value = details.value;
+    this.step = details.step;
+    this.cause = details.cause;
+  }
+}
+
+export class ExtractionError extends MappingError {
+  constructor(message: string, details: MappingErrorDetails = {}) {
+    super(message, details);
+    this.name = "ExtractionError";
+    this.phase = "extract";
+  }
+}
+
+export class ConditionError extends MappingError {
+  constructor(message: string, details: MappingErrorDetails = {}) {
+    super(message, details);
+    this.name = "ConditionError";
+    this.phase = "condition";
+  }
+}
+
+export class FilterError extends MappingError {
+  constructor(message: string, details: MappingErrorDetails = {}) {
+    super(message, details);
+    this.name = "FilterError";
+    this.phase = "filter";
+  }
+}
+
+export class TransformError extends MappingError {
+  constructor(message: string, details: MappingErrorDetails = {}) {
+    super(message, details);
+    this.name = "TransformError";
+    this.phase = "transform";
+  }
+}
+
+export type FailOnErrorDetails = MappingErrorDetails & {
+  code?: string | undefined; // failCode or code returned by failOn
+  reason?: string | undefined; // failMessage or message returned by failOn
+};
+
+export class FailOnError extends MappingError {
+  code: string | undefined;
+  reason: string;
+
+  constructor(message: string, details: FailOnErrorDetails = {}) {
+    super(message, details);
+    this.name = "FailOnError";
+    this.phase = "failOn";
+    this.code = details.code;
+    this.reason = details.reason ?? message;
+  }
+}
+
+export class WriteError extends MappingError {
+  constructor(message: string, details: MappingErrorDetails = {}) {
+    super(message, details);
+    this.name = "WriteError";
+    this.phase = "write";
+  }
+}
+
+export type UnsafeKeyErrorDetails = MappingErrorDetails & {
+  key?: string | undefined; // the rejected "__proto__", "prototype" or "constructor" key
+};
+
+// a target path reaching the prototypes of the target, rejected by the hardened option
+export class UnsafeKeyError extends WriteError {
+  key: string | undefined;
+
+  constructor(message: string, details: UnsafeKeyErrorDetails = {}) {
+    super(message, details);
+    this.name = "UnsafeKeyError";
+    this.key = details.key;
+  }
+}
+
+const ERROR_CLASSES: Record<
+  MappingPhase,
+  new (message: string, details?: FailOnErrorDetails) => MappingError
+> = {
+  rule: MappingError,
+  extract: ExtractionError,
+  condition: ConditionError,
+  filter: FilterError,
+  transform: TransformError,
+  failOn: FailOnError,
+  write: WriteError,
+};
+
+export function createMappingError(
+  phase: MappingPhase,
+  message: string,
+  details: FailOnErrorDetails = {},
+): MappingError {
+  return new ERROR_CLASSES[phase](message, details);
+}
+
+export class MappingAggregateError<TTarget = any> extends Error {
+  errors: MappingError[];
+  target: TTarget; // the target as mapped by the rules that did not fail
+
+  constructor(errors: MappingError[], target: TTarget) {
+    super(
+      `Mapping failed with ${errors.length} error${errors.length > 1 ? "s" : ""}:\n${errors
+        .map((error) => `- ${error.message}`)
+        .join("\n")}`,
+    );
+    this.name = "MappingAggregateError";
+    this.errors = errors;
+    this.target = target;
+  }
+}
+
+export class ValidationError<TTarget = any> extends Error {
+  issues: SchemaIssue[];
+  target: TTarget; // the mapped target that failed validation
+
+  constructor(issues: SchemaIssue[], target: TTarget) {
+    super(
+      `Target validation failed with ${issues.length} issue${issues.length > 1 ? "s" : ""}:\n${issues
+        .map((issue) => `- ${describeIssue(issue)}`)
+        .join("\n")}`,
+    );
+    this.name = "ValidationError";
+    this.issues = issues;
+    this.target = target;
+  }
+}
+
+function describeIssue(issue: SchemaIssue): string {
+  const subject = issue.path ? `'${issue.path}'` : "target";
+  const rule = issue.rule
+    ? ` (rule ${issue.index} with target '${describeTargets(issue.rule.target)}')`
+    : "";
+
+  return `${subject} ${issue.message}${rule}`;
+}
+
+export class StructureError extends Error {
+  diagnostics: StructureDiagnostic[]; // errors and warnings of the structure
+
+  constructor(diagnostics: StructureDiagnostic[]) {
+    super(
+      `Invalid structure: ${diagnostics
+        .filter((diagnostic) => diagnostic.severity === "error")
+        .map((diagnostic) => `rule ${diagnostic.index} (${diagnostic.message})`)
+        .join(", ")}`,
+    );
+    this.name = "StructureError";
+    this.diagnostics = diagnostics;
+  }
+}
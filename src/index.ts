@@ -1,11 +1,74 @@
 export { Automapper } from "./automapper.js";
 export { OutPath } from "./outpath.js";
-export { Mapper, mapObject } from "./mapper.js";
-export { AsyncMapper, mapObjectAsync } from "./async-mapper.js";
+export { Mapper, mapObject, mapObjects } from "./mapper.js";
+export {
+  AsyncMapper,
+  mapObjectAsync,
+  mapObjectsAsync,
+} from "./async-mapper.js";
 export { BaseMapper } from "./base-mapper.js";
+export {
+  MappingError,
+  ExtractionError,
+  ConditionError,
+  FilterError,
+  TransformError,
+  FailOnError,
+  WriteError,
+  UnsafeKeyError,
+  MappingAggregateError,
+  ValidationError,
+  StructureError,
+} from "./errors.js";
+export { reverseStructure } from "./reverse.js";
+export { validateTarget } from "./schema.js";
+export { validateStructure } from "./structure.js";
+export { TransformRegistry } from "./registry.js";
+export { loadStructure, serializeStructure } from "./serialization.js";
+export { createMapStream } from "./stream.js";
+export * as transforms from "./transforms.js";
+export type {
+  MappingPhase,
+  MappingErrorDetails,
+  FailOnErrorDetails,
+  UnsafeKeyErrorDetails,
+} from "./errors.js";
 export type { AutomapperOptions } from "./types/automapper.js";
+export type { BatchOptions, BatchFailure, BatchResult } from "./types/batch.js";
+export type { StreamOptions } from "./types/stream.js";
+export type { TransformOptions } from "./transforms.js";
+export type {
+  JsonSchema,
+  JsonSchemaType,
+  SchemaIssue,
+  ValidationResult,
+} from "./types/schema.js";
+export type {
+  RuleFunction,
+  RuleFunctionFactory,
+  NamedReference,
+  SerializedRule,
+  SerializedRuleObject,
+  SerializedRuleGroup,
+  SerializedStructure,
+  SerializedTransformStep,
+  SerializedSubRule,
+} from "./types/registry.js";
+export type {
+  DiagnosticSeverity,
+  DiagnosticCode,
+  StructureDiagnostic,
+} from "./types/structure.js";
+export type {
+  ReverseOptions,
+  ReverseIssue,
+  ReverseResult,
+} from "./types/reverse.js";
 export type {
   MapperOptions,
+  WildcardLengthMismatch,
+  WriteStrategy,
+  WriteFunction,
   Structure,
   AsyncStructure,
   Rule,
@@ -13,4 +76,16 @@ export type {
   RuleArray,
   RuleObject,
   AsyncRuleObject,
+  RuleSources,
+  RuleTargets,
+  SubRule,
+  AsyncSubRule,
+  AsyncRuleTargets,
+  TargetFunction,
+  RuleGroup,
+  AsyncRuleGroup,
+  SourceDefinition,
+  TransformStep,
+  AsyncTransformStep,
+  FailOnResult,
 } from "./types/mapper.js";
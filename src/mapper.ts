@@ -6,33 +6,151 @@ import type {
   Rule,
   RuleObject,
 } from "./types/mapper.js";
+import type { ReverseOptions } from "./types/reverse.js";
+import type { BatchOptions, BatchResult } from "./types/batch.js";
+import type { SerializedStructure } from "./types/registry.js";
 import { SyncRuleProcessor } from "./mapper/rule-processor.js";
+import { ArrayInsertions } from "./mapper/appends.js";
+import { CompiledOutPath, createCompiledExtractor } from "./mapper/compiler.js";
+import { describeIssues, reverseStructure } from "./reverse.js";
 
 export class Mapper<
   TSource = UnknownSource,
   TTarget = UnknownTarget,
 > extends BaseMapper<TSource, TTarget> {
   private ruleProcessor: SyncRuleProcessor<TSource, TTarget>;
+  private compiledMap: ((source: TSource, target?: TTarget) => TTarget) | null =
+    null;
 
-  constructor(structure: Structure, options?: Partial<MapperOptions>) {
+  constructor(
+    structure: Structure | SerializedStructure,
+    options?: Partial<MapperOptions>,
+  ) {
     super(structure, options);
     this.ruleProcessor = new SyncRuleProcessor(this.outpath, this.options);
   }
 
+  setOptions(options: Partial<MapperOptions>): void {
+    super.setOptions(options);
+    this.compiledMap = null;
+  }
+
+  setStructure(structure: Structure | SerializedStructure): void {
+    super.setStructure(structure);
+    this.compiledMap = null;
+  }
+
   map(source: TSource, target?: TTarget): TTarget {
-    let result = target ?? ({} as TTarget);
+    if (this.options.compiled) {
+      this.compiledMap ??= this.compile();
+      return this.compiledMap(source, target);
+    }
+
+    let result = this.initialTarget(target);
     result = this.applyAutomap(source, result);
+    const errors = this.options.collectErrors ? [] : null;
+    const writes = this.options.targetSchema ? [] : null;
+    const insertions = new ArrayInsertions();
+    const original = this.options.immutable ? (target ?? null) : null;
 
-    for (const rule of this.structure) {
+    this.structure.forEach((rule, index) => {
       const ruleObj = this.normalizeRule(rule);
 
-      this.ruleProcessor.processRule(ruleObj, source, result, (src, path) =>
-        this.extractData(src, path),
+      this.ruleProcessor.processRule(
+        ruleObj,
+        source,
+        result,
+        (src: TSource, path: string, detectNoMatch?: boolean) =>
+          this.extractData(src, path, detectNoMatch),
+        { index, errors, writes, order: [index], insertions, original },
       );
-    }
+    });
 
+    this.throwCollectedErrors(errors, result);
+    this.validateResult(result, writes);
     return result;
   }
+
+  mapMany(
+    sources: TSource[],
+    options: Partial<BatchOptions> & { collectFailures: true },
+  ): BatchResult<TSource, TTarget>;
+  mapMany(sources: TSource[], options?: Partial<BatchOptions>): TTarget[];
+  mapMany(
+    sources: TSource[],
+    options?: Partial<BatchOptions>,
+  ): TTarget[] | BatchResult<TSource, TTarget> {
+    if (!options?.collectFailures) {
+      return sources.map((source) => this.map(source));
+    }
+
+    const batch: BatchResult<TSource, TTarget> = {
+      results: new Array(sources.length).fill(undefined),
+      failures: [],
+    };
+
+    sources.forEach((source, index) => {
+      try {
+        batch.results[index] = this.map(source);
+      } catch (error) {
+        batch.failures.push({ index, source, error });
+      }
+    });
+
+    return batch;
+  }
+
+  // normalizes the rules once and reads / writes simple paths with direct property access
+  compile(): (source: TSource, target?: TTarget) => TTarget {
+    const rules = this.structure.map((rule) => this.normalizeRule(rule));
+    const processor = new SyncRuleProcessor<TSource, TTarget>(
+      new CompiledOutPath<TTarget>(),
+      this.options,
+    );
+    const extractData = createCompiledExtractor<TSource>(
+      (src, path, detectNoMatch) => this.extractData(src, path, detectNoMatch),
+      !this.options.jsonPathOptions,
+    );
+
+    return (source, target) => {
+      let result = this.initialTarget(target);
+      result = this.applyAutomap(source, result);
+      const errors = this.options.collectErrors ? [] : null;
+      const writes = this.options.targetSchema ? [] : null;
+      const insertions = new ArrayInsertions();
+      const original = this.options.immutable ? (target ?? null) : null;
+
+      rules.forEach((rule, index) => {
+        processor.processRule(rule, source, result, extractData, {
+          index,
+          errors,
+          writes,
+          order: [index],
+          insertions,
+          original,
+        });
+      });
+
+      this.throwCollectedErrors(errors, result);
+      this.validateResult(result, writes);
+      return result;
+    };
+  }
+
+  reverse(options?: Partial<ReverseOptions>): Mapper<TTarget, TSource> {
+    const { structure, skipped } = reverseStructure(
+      this.structure,
+      this.options.assumeRoot,
+    );
+
+    if (skipped.length > 0 && !options?.partial) {
+      throw new Error(`Cannot reverse structure: ${describeIssues(skipped)}`);
+    }
+
+    // the schema and the registry describe the forward structure only
+    const { targetSchema, registry, ...reverseOptions } = this.ownOptions;
+    return new Mapper<TTarget, TSource>(structure, reverseOptions);
+  }
 }
 
 export function mapObject<TSource = UnknownSource, TTarget = UnknownTarget>(
@@ -43,3 +161,11 @@ export function mapObject<TSource = UnknownSource, TTarget = UnknownTarget>(
 ): TTarget {
   return new Mapper<TSource, TTarget>(structure, options).map(source, target);
 }
+
+export function mapObjects<TSource = UnknownSource, TTarget = UnknownTarget>(
+  structure: Structure,
+  sources: TSource[],
+  options?: Partial<MapperOptions>,
+): TTarget[] {
+  return new Mapper<TSource, TTarget>(structure, options).mapMany(sources);
+}
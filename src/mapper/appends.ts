@@ -0,0 +1,120 @@
+import { isEqual } from "../schema.js";
+
+export type ArrayMarker = "append" | "prepend" | "unique";
+
+const MARKERS: [string, ArrayMarker][] = [
+  ["[]", "append"],
+  ["[+]", "append"],
+  ["[^]", "prepend"],
+  ["[~]", "unique"],
+];
+
+// "sites[+]" appends to sites, the tail of "crew[+].name" is written in a new element
+export function splitArrayMarker(
+  path: string,
+): { head: string; marker: ArrayMarker; tail: string } | null {
+  for (let index = 0; index < path.length; index++) {
+    if (path[index] === "\\") {
+      index++;
+      continue;
+    }
+
+    for (const [text, marker] of MARKERS) {
+      if (path.startsWith(text, index)) {
+        return {
+          head: path.slice(0, index),
+          marker,
+          tail: path.slice(index + text.length),
+        };
+      }
+    }
+  }
+
+  return null;
+}
+
+type Insertion = {
+  order: number[];
+  element: any;
+};
+
+// elements added by markers during a map() call, kept in the order of their rules whatever order the rules complete in
+export class ArrayInsertions {
+  private arrays = new WeakMap<
+    any[],
+    { prepended: Insertion[]; appended: Insertion[] }
+  >();
+
+  insert(
+    array: any[],
+    marker: ArrayMarker,
+    order: number[],
+    element: any,
+  ): void {
+    let state = this.arrays.get(array);
+    if (!state) {
+      state = { prepended: [], appended: [] };
+      this.arrays.set(array, state);
+    }
+
+    if (
+      marker === "unique" &&
+      !this.claim(array, state.appended, order, element)
+    ) {
+      return;
+    }
+
+    if (marker === "prepend") {
+      // a later rule prepends before an earlier one, like successive unshift calls
+      const position = state.prepended.filter(
+        (insertion) => compareOrder(insertion.order, order) > 0,
+      ).length;
+
+      state.prepended.splice(position, 0, { order, element });
+      array.splice(position, 0, element);
+      return;
+    }
+
+    const start = array.length - state.appended.length;
+    const position = state.appended.filter(
+      (insertion) => compareOrder(insertion.order, order) <= 0,
+    ).length;
+
+    state.appended.splice(position, 0, { order, element });
+    array.splice(start + position, 0, element);
+  }
+
+  // an equal element appended by a later rule gives up its place, any other one keeps it
+  private claim(
+    array: any[],
+    appended: Insertion[],
+    order: number[],
+    element: any,
+  ): boolean {
+    const index = array.findIndex((existing) => isEqual(existing, element));
+    if (index === -1) {
+      return true;
+    }
+
+    const position = index - (array.length - appended.length);
+    const insertion = appended[position];
+
+    if (!insertion || compareOrder(insertion.order, order) <= 0) {
+      return false;
+    }
+
+    appended.splice(position, 1);
+    array.splice(index, 1);
+    return true;
+  }
+}
+
+function compareOrder(a: number[], b: number[]): number {
+  for (let index = 0; index < Math.min(a.length, b.length); index++) {
+    if (a[index] !== b[index]) {
+      return a[index]! - b[index]!;
+    }
+  }
+
+  return a.length - b.length;
+}
@@ -0,0 +1,125 @@
+import { setProperty } from "dot-prop";
+import { OutPath } from "../outpath.js";
+import type { UnknownTarget } from "../types/generic.js";
+import { NO_MATCH } from "./no-match.js";
+import { parseOutPath, parseSimpleJsonPath } from "./paths.js";
+import { UNSAFE_KEYS } from "./unsafe-keys.js";
+
+type Reader = (source: any) => any;
+type Writer = (target: any, value: any) => void;
+
+const hasOwnProperty = Object.prototype.hasOwnProperty;
+
+// reads a simple JSONPath with direct property access, the same way JSONPath does with wrap: false
+export function compileJsonPath(path: string): Reader | null {
+  const segments = parseSimpleJsonPath(path);
+  if (!segments) {
+    return null;
+  }
+
+  return (source) => {
+    if (!source) {
+      return NO_MATCH;
+    }
+
+    let value = source;
+    for (const segment of segments) {
+      if (!value || !hasOwnProperty.call(value, segment)) {
+        return NO_MATCH;
+      }
+
+      value = value[segment];
+    }
+
+    return value;
+  };
+}
+
+// writes a dot-prop path with direct property access, the same way setProperty does
+export function compileOutPath(path: string): Writer | null {
+  if (!path) {
+    return null;
+  }
+
+  let segments;
+  try {
+    segments = parseOutPath(path);
+  } catch {
+    return null;
+  }
+
+  // such paths are left to dot-prop, which refuses to write them
+  if (segments.some((segment) => UNSAFE_KEYS.has(String(segment)))) {
+    return null;
+  }
+
+  const last = segments.length - 1;
+
+  return (target, value) => {
+    let object = target;
+
+    for (let index = 0; index <= last; index++) {
+      if (!isObject(object)) {
+        return;
+      }
+
+      const key = segments[index]!;
+
+      // string keys on arrays need dot-prop's string index checks
+      if (typeof key === "string" && Array.isArray(object)) {
+        setProperty(target, path, value);
+        return;
+      }
+
+      if (index === last) {
+        object[key] = value;
+      } else if (!isObject(object[key])) {
+        object[key] = typeof segments[index + 1] === "number" ? [] : {};
+      }
+
+      object = object[key];
+    }
+  };
+}
+
+export function createCompiledExtractor<TSource>(
+  fallback: (source: TSource, jsonPath: string, detectNoMatch?: boolean) => any,
+  useReaders = true,
+): (source: TSource, jsonPath: string, detectNoMatch?: boolean) => any {
+  const readers = new Map<string, Reader | null>();
+
+  return (source, jsonPath, detectNoMatch) => {
+    let reader = readers.get(jsonPath);
+
+    if (reader === undefined) {
+      reader = useReaders ? compileJsonPath(jsonPath) : null;
+      readers.set(jsonPath, reader);
+    }
+
+    return reader ? reader(source) : fallback(source, jsonPath, detectNoMatch);
+  };
+}
+
+export class CompiledOutPath<T = UnknownTarget> extends OutPath<T> {
+  private writers = new Map<string, Writer | null>();
+
+  write(target: T, path: string, value: any): void {
+    let writer = this.writers.get(path);
+
+    if (writer === undefined) {
+      writer = compileOutPath(path);
+      this.writers.set(path, writer);
+    }
+
+    if (writer) {
+      writer(target, value);
+    } else {
+      super.write(target, path, value);
+    }
+  }
+}
+
+function isObject(value: unknown): value is Record<PropertyKey, any> {
+  const type = typeof value;
+  return value !== null && (type === "object" || type === "function");
+}
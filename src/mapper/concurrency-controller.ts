@@ -10,11 +10,21 @@ export class ConcurrencyController {
     }
 
     const executing = new Set<Promise<void>>();
+    // a task can fail before the next race, keep its error instead of losing it
+    const failures: unknown[] = [];
 
     for (const task of tasks) {
-      const promise = processor(task).finally(() => {
-        executing.delete(promise);
-      });
+      if (failures.length > 0) {
+        break;
+      }
+
+      const promise = processor(task)
+        .catch((error) => {
+          failures.push(error);
+        })
+        .finally(() => {
+          executing.delete(promise);
+        });
 
       executing.add(promise);
 
@@ -24,5 +34,9 @@ export class ConcurrencyController {
     }
 
     await Promise.all(executing);
+
+    if (failures.length > 0) {
+      throw failures[0];
+    }
   }
 }
@@ -0,0 +1,130 @@
+import { NO_MATCH } from "./no-match.js";
+
+type Operator = "==" | "!=" | ">=" | "<=" | ">" | "<";
+
+// a JSONPath, optionally compared with a literal value
+export type Condition = {
+  path: string;
+  operator: Operator | null;
+  value: any;
+};
+
+const OPERATORS: Operator[] = ["==", "!=", ">=", "<=", ">", "<"];
+
+// "mission.crewed" tests existence, "mission.crew.length > 2" compares the matched value
+export function parseCondition(expression: string): Condition {
+  const match = findOperator(expression);
+
+  if (!match) {
+    return { path: expression.trim(), operator: null, value: undefined };
+  }
+
+  const path = expression.slice(0, match.index).trim();
+  if (!path) {
+    throw new Error(`condition '${expression}' has no JSONPath`);
+  }
+
+  return {
+    path,
+    operator: match.operator,
+    value: parseLiteral(
+      expression.slice(match.index + match.operator.length).trim(),
+      expression,
+    ),
+  };
+}
+
+// existence is a match other than null and undefined, comparisons are strict
+export function testCondition(condition: Condition, data: any): boolean {
+  const value = data === NO_MATCH ? undefined : data;
+  const expected = condition.value;
+
+  switch (condition.operator) {
+    case null:
+      return value !== null && value !== undefined;
+    case "==":
+      return value === expected;
+    case "!=":
+      return value !== expected;
+  }
+
+  if (
+    typeof value !== typeof expected ||
+    (typeof value !== "number" && typeof value !== "string")
+  ) {
+    return false;
+  }
+
+  switch (condition.operator) {
+    case ">":
+      return value > expected;
+    case ">=":
+      return value >= expected;
+    case "<":
+      return value < expected;
+    case "<=":
+      return value <= expected;
+  }
+}
+
+// first operator outside of brackets, parentheses and quotes
+function findOperator(
+  expression: string,
+): { index: number; operator: Operator } | null {
+  let depth = 0;
+  let quote: string | null = null;
+
+  for (let index = 0; index < expression.length; index++) {
+    const char = expression[index]!;
+
+    if (quote) {
+      if (char === "\\") {
+        index++;
+      } else if (char === quote) {
+        quote = null;
+      }
+      continue;
+    }
+
+    if (char === "'" || char === '"') {
+      quote = char;
+    } else if (char === "[" || char === "(") {
+      depth++;
+    } else if (char === "]" || char === ")") {
+      depth--;
+    } else if (depth === 0) {
+      const operator = OPERATORS.find((op) => expression.startsWith(op, index));
+      if (operator) {
+        return { index, operator };
+      }
+    }
+  }
+
+  return null;
+}
+
+function parseLiteral(literal: string, expression: string): any {
+  if (literal === "true" || literal === "false" || literal === "null") {
+    return JSON.parse(literal);
+  }
+
+  if (/^'.*'$/s.test(literal)) {
+    return literal.slice(1, -1).replace(/\\(.)/g, "$1");
+  }
+
+  if (/^".*"$/s.test(literal)) {
+    try {
+      return JSON.parse(literal);
+    } catch {
+      // reported below
+    }
+  }
+
+  if (literal !== "" && Number.isFinite(Number(literal))) {
+    return Number(literal);
+  }
+
+  throw new Error(
+    `condition '${expression}' compares with an invalid value '${literal}', expected a number, a quoted string, true, false or null`,
+  );
+}
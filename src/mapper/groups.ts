@@ -0,0 +1,177 @@
+import type {
+  AsyncRule,
+  AsyncRuleGroup,
+  Rule,
+  RuleGroup,
+  RuleArray,
+  RuleObject,
+  RuleSources,
+  SourceDefinition,
+  TargetFunction,
+} from "../types/mapper.js";
+import { normalizeRule } from "./normalize-rule.js";
+import { parseCondition } from "./conditions.js";
+import { functionTargetPath, parseTargetTemplate } from "./targets.js";
+
+export function isRuleGroup(
+  rule: Rule | AsyncRule,
+): rule is RuleGroup | AsyncRuleGroup {
+  return !Array.isArray(rule) && "rules" in rule;
+}
+
+// "$.fuel", "fuel" and "[0]" are relative to the prefix, "$" is the prefix itself
+export function joinJsonPath(prefix: string | undefined, path: string): string {
+  if (!prefix) {
+    return path;
+  }
+
+  if (path === "$") {
+    return prefix;
+  }
+
+  if (path.startsWith("$.") || path.startsWith("$[")) {
+    return prefix + path.slice(1);
+  }
+
+  return path.startsWith("[") ? prefix + path : `${prefix}.${path}`;
+}
+
+export function joinOutPath(prefix: string | undefined, path: string): string {
+  if (!prefix || path === "") {
+    return prefix || path;
+  }
+
+  return path.startsWith("[") ? prefix + path : `${prefix}.${path}`;
+}
+
+// rewrites the paths of a rule of the group as absolute paths, nested structures stay relative to their value
+export function scopeRule<T extends Rule | AsyncRule>(
+  rule: T,
+  group: RuleGroup | AsyncRuleGroup,
+): Exclude<T, RuleArray> {
+  const { sourcePrefix, targetPrefix } = group;
+
+  if (isRuleGroup(rule)) {
+    return {
+      ...rule,
+      sourcePrefix: joinJsonPath(sourcePrefix, rule.sourcePrefix ?? "$"),
+      targetPrefix: joinOutPath(targetPrefix, rule.targetPrefix ?? ""),
+    } as Exclude<T, RuleArray>;
+  }
+
+  const scoped: Record<string, any> = { ...normalizeRule(rule as Rule) };
+
+  if (typeof scoped.source === "string") {
+    scoped.source = joinJsonPath(sourcePrefix, scoped.source);
+  }
+
+  if (scoped.sources) {
+    scoped.sources = scopeSources(scoped.sources, sourcePrefix);
+  }
+
+  const scopeTarget = (path: string) =>
+    joinOutPath(targetPrefix, scopePlaceholders(path, sourcePrefix));
+
+  if (typeof scoped.target === "string") {
+    scoped.target = scopeTarget(scoped.target);
+  } else if (typeof scoped.target === "function") {
+    const targetFunction: TargetFunction = scoped.target;
+    scoped.target = (data: any, source: any, target: any) =>
+      joinOutPath(
+        targetPrefix,
+        functionTargetPath(targetFunction(data, source, target)),
+      );
+  } else if (Array.isArray(scoped.target)) {
+    scoped.target = scoped.target.map(scopeTarget);
+  } else if (scoped.target) {
+    scoped.target = Object.fromEntries(
+      Object.entries(scoped.target).map(([path, transform]) => [
+        scopeTarget(path),
+        transform,
+      ]),
+    );
+  }
+
+  if (typeof scoped.when === "string") {
+    scoped.when = scopeCondition(scoped.when, sourcePrefix);
+  }
+
+  if (typeof scoped.switch === "string") {
+    scoped.switch = joinJsonPath(sourcePrefix, scoped.switch);
+  }
+
+  if (scoped.cases) {
+    scoped.cases = Object.fromEntries(
+      Object.entries(scoped.cases).map(([key, subRule]) => [
+        key,
+        scopeRule(subRule as RuleObject, group),
+      ]),
+    );
+  }
+
+  for (const key of ["default", "otherwise"]) {
+    if (scoped[key]) {
+      scoped[key] = scopeRule(scoped[key], group);
+    }
+  }
+
+  return scoped as Exclude<T, RuleArray>;
+}
+
+function scopeSources(
+  sources: RuleSources,
+  prefix: string | undefined,
+): RuleSources {
+  const scope = (definition: SourceDefinition) =>
+    typeof definition === "string"
+      ? joinJsonPath(prefix, definition)
+      : { ...definition, source: joinJsonPath(prefix, definition.source) };
+
+  return Array.isArray(sources)
+    ? sources.map(scope)
+    : Object.fromEntries(
+        Object.entries(sources).map(([key, definition]) => [
+          key,
+          scope(definition),
+        ]),
+      );
+}
+
+// "{$.path}" placeholders read the prefix like conditions, malformed templates fail when written
+function scopePlaceholders(path: string, prefix: string | undefined): string {
+  let parts;
+  try {
+    parts = parseTargetTemplate(path);
+  } catch {
+    return path;
+  }
+
+  if (!parts || !prefix) {
+    return path;
+  }
+
+  return parts
+    .map((part) =>
+      typeof part === "string"
+        ? part
+        : part.placeholder.startsWith("$")
+          ? `{${joinJsonPath(joinJsonPath("$", prefix), part.placeholder)}}`
+          : `{${part.placeholder}}`,
+    )
+    .join("");
+}
+
+// malformed expressions are kept as is and fail when the condition is tested
+function scopeCondition(
+  expression: string,
+  prefix: string | undefined,
+): string {
+  let path;
+  try {
+    path = parseCondition(expression).path;
+  } catch {
+    return expression;
+  }
+
+  return joinJsonPath(prefix, path) + expression.trimStart().slice(path.length);
+}
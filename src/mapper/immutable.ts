@@ -0,0 +1,50 @@
+import { parseOutPath } from "./paths.js";
+
+// a new array or object with the same prototype and own enumerable properties
+export function shallowCopy<T>(value: T): T {
+  if (Array.isArray(value)) {
+    return value.slice() as T;
+  }
+
+  return Object.assign(Object.create(Object.getPrototypeOf(value)), value) as T;
+}
+
+// copies the objects along the path the result still shares with the original target, the value itself when "self"
+export function detachPath(
+  result: any,
+  original: any,
+  path: string,
+  self = false,
+): void {
+  let segments;
+  try {
+    segments = parseOutPath(path);
+  } catch {
+    return; // the write itself reports the malformed path
+  }
+
+  const count = self ? segments.length : segments.length - 1;
+  let copy = result;
+  let shared = original;
+
+  for (let index = 0; index < count; index++) {
+    const key = segments[index]!;
+    const value = copy[key];
+
+    if (!isObject(value)) {
+      return;
+    }
+
+    const sharedValue = isObject(shared) ? shared[key] : undefined;
+    if (value === sharedValue) {
+      copy[key] = shallowCopy(value);
+    }
+
+    copy = copy[key];
+    shared = sharedValue;
+  }
+}
+
+function isObject(value: unknown): value is Record<PropertyKey, any> {
+  return typeof value === "object" && value !== null;
+}
@@ -0,0 +1,2 @@
+// returned by extractData when the JSONPath matches nothing, as opposed to a matched null or undefined value
+export const NO_MATCH: unique symbol = Symbol("NO_MATCH");
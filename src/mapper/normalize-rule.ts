@@ -0,0 +1,13 @@
+import type { AsyncRule, Rule, RuleArray } from "../types/mapper.js";
+
+// array rules become rule objects, rule objects and groups are returned as is
+export function normalizeRule<T extends Rule | AsyncRule>(
+  rule: T,
+): Exclude<T, RuleArray> {
+  if (Array.isArray(rule)) {
+    const [source, target] = rule;
+    return { source, target } as Exclude<T, RuleArray>;
+  }
+
+  return rule as Exclude<T, RuleArray>;
+}
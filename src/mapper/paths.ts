@@ -0,0 +1,164 @@
+export type PathSegment = string | number;
+
+const JSONPATH_NAME = /^[^.[\]*?@()'"`,:~^$\s\\]+/;
+const JSONPATH_INDEX = /^\[(\d+)\]/;
+const JSONPATH_QUOTED = /^\[(?:'([^'\\]*)'|"([^"\\]*)")\]/;
+const IDENTIFIER = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+// parses a JSONPath made only of property names and array indexes, returns null for anything else
+export function parseSimpleJsonPath(path: string): PathSegment[] | null {
+  if (!path.startsWith("$")) {
+    return null;
+  }
+
+  const segments: PathSegment[] = [];
+  let rest = path.slice(1);
+
+  while (rest.length > 0) {
+    let match: RegExpExecArray | null;
+
+    if (rest.startsWith(".")) {
+      match = JSONPATH_NAME.exec(rest.slice(1));
+      if (!match) {
+        return null;
+      }
+
+      segments.push(match[0]);
+      rest = rest.slice(1 + match[0].length);
+    } else if ((match = JSONPATH_INDEX.exec(rest))) {
+      segments.push(Number(match[1]));
+      rest = rest.slice(match[0].length);
+    } else if ((match = JSONPATH_QUOTED.exec(rest))) {
+      segments.push(match[1] ?? match[2]!);
+      rest = rest.slice(match[0].length);
+    } else {
+      return null;
+    }
+  }
+
+  return segments;
+}
+
+export function toJsonPath(segments: PathSegment[]): string {
+  return segments.reduce<string>((path, segment) => {
+    if (typeof segment === "number") {
+      return `${path}[${segment}]`;
+    }
+
+    if (IDENTIFIER.test(segment)) {
+      return `${path}.${segment}`;
+    }
+
+    return segment.includes("'")
+      ? `${path}["${segment}"]`
+      : `${path}['${segment}']`;
+  }, "$");
+}
+
+// parses a dot-prop path the same way dot-prop does, throws on malformed indexes
+export function parseOutPath(path: string): PathSegment[] {
+  const segments: PathSegment[] = [];
+  let current = "";
+  let part: "start" | "property" | "index" | "indexEnd" = "start";
+  let escaping = false;
+
+  for (const character of path) {
+    if (part === "index") {
+      if (character === "]") {
+        segments.push(Number.parseInt(current, 10));
+        current = "";
+        part = "indexEnd";
+      } else if (/\d/.test(character)) {
+        current += character;
+      } else {
+        throw new Error(`Invalid character in an index of path '${path}'`);
+      }
+      continue;
+    }
+
+    if (escaping) {
+      if (character !== "\\" && character !== "." && character !== "[") {
+        current += "\\";
+      }
+
+      current += character;
+      escaping = false;
+      part = "property";
+      continue;
+    }
+
+    if (character === ".") {
+      if (part !== "indexEnd") {
+        segments.push(current);
+        current = "";
+      }
+      part = "property";
+    } else if (character === "[") {
+      if (part === "property") {
+        segments.push(current);
+        current = "";
+      }
+      part = "index";
+    } else if (part === "indexEnd") {
+      throw new Error(`Invalid character after an index of path '${path}'`);
+    } else if (character === "\\") {
+      escaping = true;
+    } else {
+      current += character;
+      part = "property";
+    }
+  }
+
+  if (escaping) {
+    current += "\\";
+  }
+
+  if (part === "index") {
+    throw new Error(`Index was not closed in path '${path}'`);
+  }
+
+  if (part !== "indexEnd") {
+    segments.push(current);
+  }
+
+  return segments;
+}
+
+export function toOutPath(segments: PathSegment[]): string {
+  return segments.reduce<string>((path, segment) => {
+    if (typeof segment === "number") {
+      return `${path}[${segment}]`;
+    }
+
+    const escaped = escapeOutPathSegment(segment);
+    return path === "" ? escaped : `${path}.${escaped}`;
+  }, "");
+}
+
+// escapes the characters dot-prop reads as separators, a property name stays a single segment
+export function escapeOutPathSegment(segment: string): string {
+  return segment.replace(/[\\.[]/g, "\\$&");
+}
+
+// splits a target path at its unescaped "[*]" wildcards, returns null without wildcard
+export function splitWildcards(path: string): string[] | null {
+  const pieces: string[] = [];
+  let start = 0;
+
+  for (let index = 0; index < path.length; index++) {
+    if (path[index] === "\\") {
+      index++;
+    } else if (path.startsWith("[*]", index)) {
+      pieces.push(path.slice(start, index));
+      start = index + 3;
+      index += 2;
+    }
+  }
+
+  if (pieces.length === 0) {
+    return null;
+  }
+
+  pieces.push(path.slice(start));
+  return pieces;
+}
@@ -0,0 +1,65 @@
+import type { StreamOptions } from "../types/stream.js";
+
+type Settled<TTarget> = { task: Promise<Settled<TTarget>>; target: TTarget };
+
+export function resolveStreamOptions(
+  options?: Partial<StreamOptions>,
+): StreamOptions {
+  const recordsLimit = options?.recordsLimit ?? 1;
+
+  if (!Number.isInteger(recordsLimit) || recordsLimit < 1) {
+    throw new Error("Stream recordsLimit must be a positive integer");
+  }
+
+  return { recordsLimit, ordered: options?.ordered ?? true };
+}
+
+// maps records pulled from the sources, never more than recordsLimit at once
+export async function* mapRecords<TSource, TTarget>(
+  sources: AsyncIterable<TSource> | Iterable<TSource>,
+  map: (source: TSource) => Promise<TTarget>,
+  options: StreamOptions,
+): AsyncGenerator<TTarget, void, undefined> {
+  const iterator =
+    Symbol.asyncIterator in sources
+      ? sources[Symbol.asyncIterator]()
+      : sources[Symbol.iterator]();
+  const pending: Promise<Settled<TTarget>>[] = [];
+  let exhausted = false;
+
+  const pull = async (): Promise<void> => {
+    while (!exhausted && pending.length < options.recordsLimit) {
+      const next = await iterator.next();
+
+      if (next.done) {
+        exhausted = true;
+        return;
+      }
+
+      const task: Promise<Settled<TTarget>> = map(next.value).then(
+        (target) => ({ task, target }),
+      );
+      // failures are rethrown when the task is awaited, abandoned tasks must not be unhandled
+      task.catch(() => {});
+      pending.push(task);
+    }
+  };
+
+  try {
+    await pull();
+
+    while (pending.length > 0) {
+      const { task, target } = await (options.ordered
+        ? pending[0]!
+        : Promise.race(pending));
+
+      pending.splice(pending.indexOf(task), 1);
+      yield target;
+      await pull();
+    }
+  } finally {
+    if (!exhausted) {
+      await iterator.return?.();
+    }
+  }
+}
@@ -1,22 +1,96 @@
 import type { UnknownSource, UnknownTarget } from "../types/generic.js";
 import type {
+  AsyncRule,
+  RuleArray,
   RuleObject,
   AsyncRuleObject,
+  RuleGroup,
+  AsyncRuleGroup,
   MapperOptions,
+  FailOnResult,
+  WriteStrategy,
 } from "../types/mapper.js";
+import type { BaseMapper } from "../base-mapper.js";
 import { OutPath } from "../outpath.js";
+import {
+  MappingError,
+  UnsafeKeyError,
+  createMappingError,
+  type FailOnErrorDetails,
+  type MappingPhase,
+} from "../errors.js";
+import { ConcurrencyController } from "./concurrency-controller.js";
+import { normalizeRule } from "./normalize-rule.js";
+import { NO_MATCH } from "./no-match.js";
+import { parseCondition, testCondition } from "./conditions.js";
+import {
+  describeTargetPath,
+  functionTargetPath,
+  parseTargetTemplate,
+  placeholderSegment,
+  ruleTargets,
+  type TargetEntry,
+} from "./targets.js";
+import { isRuleGroup, joinJsonPath, scopeRule } from "./groups.js";
+import type { TargetWrite } from "./writes.js";
+import { parseSimpleJsonPath, splitWildcards } from "./paths.js";
+import { KEEP_EXISTING, mergeWrite } from "./write-strategies.js";
+import { detachPath } from "./immutable.js";
+import { findUnsafeKey, UNSAFE_KEYS } from "./unsafe-keys.js";
+import {
+  ArrayInsertions,
+  splitArrayMarker,
+  type ArrayMarker,
+} from "./appends.js";
+
+// prefixes of the messages of wrapped errors, extraction errors are already explicit
+const PHASE_LABELS: Record<MappingPhase, string> = {
+  rule: "",
+  extract: "",
+  condition: "condition threw",
+  filter: "filter threw",
+  transform: "transform threw",
+  failOn: "failOn threw",
+  write: "cannot write value",
+};
+
+// state of a single map() call, shared with the processors of nested structures
+export type RuleContext = {
+  index: number; // index of the rule in the mapped structure
+  errors: MappingError[] | null; // collected failures, null to throw on the first one
+  writes: TargetWrite[] | null; // written targets, recorded when the target is validated
+  order: number[]; // indexes of the rule in the structure and its nested structures
+  insertions: ArrayInsertions; // elements added by array markers, in the order of their rules
+  original: unknown; // target given to map() in immutable mode, its objects are copied before being written
+};
+
+// where a rule failed, reported in the error
+type ErrorLocation = {
+  step?: number | undefined; // index of the transform pipeline step
+  target?: string | undefined; // resolved path of one of the rule targets
+};
+
+type PipelineStep = {
+  transform: (data: any, source: any, target: any) => any;
+  failOn?: ((data: any, source: any, target: any) => any) | undefined;
+  step?: number; // undefined when the transform is a single function
+};
 
 export abstract class BaseRuleProcessor<
   TSource = UnknownSource,
   TTarget = UnknownTarget,
   TRule extends RuleObject | AsyncRuleObject = RuleObject,
+  TGroup extends RuleGroup | AsyncRuleGroup = RuleGroup,
 > {
   protected outpath: OutPath<TTarget>;
   protected options: MapperOptions;
+  // target path of the parent rule when processing a nested structure
+  protected path: string;
 
-  constructor(outpath: OutPath<TTarget>, options: MapperOptions) {
+  constructor(outpath: OutPath<TTarget>, options: MapperOptions, path = "") {
     this.outpath = outpath;
     this.options = options;
+    this.path = path;
   }
 
   protected shouldSkip(value: any): boolean {
@@ -31,55 +105,803 @@ export abstract class BaseRuleProcessor<
     return false;
   }
 
+  // rules with a default value are optional in strict mode
+  protected isRequired(rule: TRule, defaultValue = rule.defaultValue): boolean {
+    return rule.required ?? (this.options.strict && defaultValue === undefined);
+  }
+
+  protected extract(
+    rule: TRule,
+    source: TSource,
+    extractData: (
+      source: TSource,
+      jsonPath: string,
+      detectNoMatch?: boolean,
+    ) => any,
+    path = rule.source!,
+    required = this.isRequired(rule),
+  ): any {
+    const jsonPath = this.normalizeJsonPath(path);
+    const data = this.guard("extract", rule, undefined, () =>
+      extractData(source, jsonPath, required),
+    );
+
+    if (data !== NO_MATCH) {
+      return data;
+    }
+
+    if (required) {
+      throw this.createError(
+        "extract",
+        rule,
+        `required source '${jsonPath}' matched nothing`,
+        { source: jsonPath },
+      );
+    }
+
+    return undefined;
+  }
+
+  // undefined when a source is still undefined after its default and undefined values are skipped
+  protected extractSources(
+    rule: TRule,
+    source: TSource,
+    extractData: (source: TSource, jsonPath: string) => any,
+  ): any {
+    const sources = rule.sources!;
+    const entries = Array.isArray(sources)
+      ? [...sources.entries()]
+      : Object.entries(sources);
+    const values: any = Array.isArray(sources) ? [] : {};
+    let partial = false;
+
+    for (const [key, definition] of entries) {
+      if (this.options.hardened && UNSAFE_KEYS.has(String(key))) {
+        throw this.createUnsafeKeyError(rule, String(key), definition);
+      }
+
+      const { source: path, defaultValue } =
+        typeof definition === "string"
+          ? { source: definition, defaultValue: undefined }
+          : definition;
+
+      let value = this.extract(
+        rule,
+        source,
+        extractData,
+        path,
+        this.isRequired(rule, defaultValue),
+      );
+
+      if (
+        (value === null || value === undefined) &&
+        defaultValue !== undefined
+      ) {
+        value = defaultValue;
+      }
+
+      partial ||= value === undefined;
+      values[key] = value;
+    }
+
+    return partial && this.options.skipUndefined ? undefined : values;
+  }
+
   protected normalizeJsonPath(path: string): string {
-    if (this.options.assumeRoot && !path.startsWith("$.")) {
+    if (
+      this.options.assumeRoot &&
+      !path.startsWith("$.") &&
+      !path.startsWith("$[")
+    ) {
       return `$.${path}`;
     }
     return path;
   }
 
-  protected createError(target: string, message: string): Error {
-    return new Error(
+  protected testExpression(
+    expression: string,
+    source: TSource,
+    extractData: (source: TSource, jsonPath: string) => any,
+  ): boolean {
+    const condition = parseCondition(expression);
+
+    return testCondition(
+      condition,
+      extractData(source, this.normalizeJsonPath(condition.path)),
+    );
+  }
+
+  protected readExpression(
+    path: string,
+    source: TSource,
+    extractData: (source: TSource, jsonPath: string) => any,
+  ): any {
+    const value = extractData(source, this.normalizeJsonPath(path));
+    return value === NO_MATCH ? undefined : value;
+  }
+
+  // the case matching the switch value, or the default one
+  protected selectCase(rule: TRule, value: any): TRule | null {
+    const cases = rule.cases ?? {};
+    const key = String(value);
+    const selected =
+      value !== undefined && Object.prototype.hasOwnProperty.call(cases, key)
+        ? cases[key]
+        : rule.default;
+
+    return selected ? this.subRule(rule, selected) : null;
+  }
+
+  // sub-rules write to the target of their parent rule unless they have their own
+  protected subRule(
+    rule: TRule,
+    subRule: NonNullable<TRule["otherwise"]>,
+  ): TRule {
+    const normalized = normalizeRule(subRule as RuleArray | RuleObject);
+    if (normalized.target !== undefined) {
+      return normalized as TRule;
+    }
+
+    // the inherited target is written the way the rule writes it
+    return {
+      ...(rule.write !== undefined && { write: rule.write }),
+      ...normalized,
+      target: rule.target,
+    } as TRule;
+  }
+
+  protected transformSteps(rule: TRule): PipelineStep[] {
+    if (!rule.transform) {
+      return [];
+    }
+
+    if (!Array.isArray(rule.transform)) {
+      return [{ transform: rule.transform }];
+    }
+
+    return rule.transform.map((step, index) =>
+      typeof step === "function"
+        ? { transform: step, step: index }
+        : { transform: step.transform, failOn: step.failOn, step: index },
+    );
+  }
+
+  protected resolvePath(target: string): string {
+    return this.path ? `${this.path}.${target}` : target;
+  }
+
+  protected resolveNested(nested: BaseMapper | AsyncRule[]): {
+    rules: (TRule | TGroup)[];
+    options: MapperOptions;
+  } {
+    if (Array.isArray(nested)) {
+      return {
+        rules: nested.map((rule) => normalizeRule(rule) as TRule | TGroup),
+        options: this.options,
+      };
+    }
+
+    return {
+      rules: nested
+        .getStructure()
+        .map((rule) => normalizeRule(rule) as TRule | TGroup),
+      options: nested.getNestedOptions(this.options),
+    };
+  }
+
+  // the rules of a group are processed with the options of the group
+  protected groupOptions(group: TGroup): MapperOptions {
+    return group.options ? { ...this.options, ...group.options } : this.options;
+  }
+
+  // the group as a rule, to report the failures of its filter
+  protected groupRule(group: TGroup): TRule {
+    return {
+      ...(group.sourcePrefix !== undefined && { source: group.sourcePrefix }),
+      target: group.targetPrefix ?? "",
+    } as TRule;
+  }
+
+  // the filter of a group receives the value at its source prefix, or the whole source
+  protected groupData(
+    group: TGroup,
+    source: TSource,
+    extractData: (source: TSource, jsonPath: string) => any,
+  ): any {
+    if (group.sourcePrefix === undefined) {
+      return source;
+    }
+
+    return this.guard("extract", this.groupRule(group), undefined, () =>
+      this.readExpression(group.sourcePrefix!, source, extractData),
+    );
+  }
+
+  protected createError(
+    phase: MappingPhase,
+    rule: TRule,
+    message: string,
+    details: FailOnErrorDetails = {},
+  ): MappingError {
+    const target =
+      details.target ??
+      ruleTargets(rule.target)
+        .map((entry) => this.resolvePath(describeTargetPath(entry.path)))
+        .join(", ");
+
+    return createMappingError(
+      phase,
       `Mapping failed: ${message} for rule with target '${target}'`,
+      {
+        rule,
+        source: rule.source ? this.normalizeJsonPath(rule.source) : undefined,
+        ...details,
+        target,
+      },
     );
   }
 
-  abstract processRule(
+  // without a path, the key is a key of the rule sources
+  protected createUnsafeKeyError(
+    rule: TRule,
+    key: string,
+    value: any,
+    path?: string,
+  ): UnsafeKeyError {
+    const { message, source, target } = this.createError(
+      "write",
+      rule,
+      `'${key}' is not allowed in ${path === undefined ? "sources keys" : "target paths"}`,
+      path === undefined ? {} : { target: this.resolvePath(path) },
+    );
+
+    return new UnsafeKeyError(message, { rule, source, target, value, key });
+  }
+
+  protected createFailOnError(
+    rule: TRule,
+    result: FailOnResult,
+    value: any,
+    step?: number,
+  ): MappingError {
+    const custom = typeof result === "object" && result ? result : {};
+    const reason =
+      (typeof result === "string" ? result : custom.message) ??
+      rule.failMessage ??
+      "condition failed";
+
+    return this.createError("failOn", rule, reason + stepLabel(step), {
+      value,
+      step,
+      code: custom.code ?? rule.failCode,
+      reason,
+    });
+  }
+
+  // errors that already carry a rule (failOn, nested rules) are kept as is
+  protected wrapError(
+    error: unknown,
+    phase: MappingPhase,
+    rule: TRule,
+    value?: any,
+    location: ErrorLocation = {},
+  ): MappingError {
+    if (error instanceof MappingError && error.rule) {
+      return error;
+    }
+
+    const message = error instanceof Error ? error.message : String(error);
+
+    return this.createError(
+      error instanceof MappingError ? error.phase : phase,
+      rule,
+      PHASE_LABELS[phase]
+        ? `${PHASE_LABELS[phase]}${stepLabel(location.step)}: ${message}`
+        : message,
+      {
+        value,
+        ...location,
+        cause: error instanceof MappingError ? error.cause : error,
+      },
+    );
+  }
+
+  protected guard<T>(
+    phase: MappingPhase,
+    rule: TRule,
+    value: any,
+    fn: () => T,
+    location?: ErrorLocation,
+  ): T {
+    try {
+      return fn();
+    } catch (error) {
+      throw this.wrapError(error, phase, rule, value, location);
+    }
+  }
+
+  protected async guardAsync<T>(
+    phase: MappingPhase,
+    rule: TRule,
+    value: any,
+    fn: () => T | Promise<T>,
+    location?: ErrorLocation,
+  ): Promise<T> {
+    try {
+      return await fn();
+    } catch (error) {
+      throw this.wrapError(error, phase, rule, value, location);
+    }
+  }
+
+  protected write(
+    rule: TRule,
+    target: TTarget,
+    path: string,
+    value: any,
+    context: RuleContext | undefined,
+    strategy: WriteStrategy = rule.write ?? this.options.write,
+  ): void {
+    const key = this.options.hardened ? findUnsafeKey(path) : null;
+    if (key) {
+      throw this.createUnsafeKeyError(rule, key, value, path);
+    }
+
+    const pieces = splitWildcards(path);
+    if (pieces) {
+      this.writeElements(rule, target, path, pieces, value, context);
+      return;
+    }
+
+    const marked = splitArrayMarker(path);
+    if (marked) {
+      this.insertElement(rule, target, path, marked, value, context);
+      return;
+    }
+
+    const resolved = this.resolvePath(path);
+
+    const written = this.guard(
+      "write",
+      rule,
+      value,
+      () => {
+        const merged =
+          strategy === "overwrite"
+            ? value
+            : mergeWrite(
+                strategy,
+                this.outpath.read(target, path),
+                value,
+                resolved,
+                this.options.hardened,
+              );
+
+        if (merged === KEEP_EXISTING) {
+          return false;
+        }
+
+        if (context?.original) {
+          detachPath(target, context.original, path);
+        }
+
+        this.outpath.write(target, path, merged);
+        return true;
+      },
+      { target: resolved },
+    );
+
+    if (written) {
+      context?.writes?.push({ target: resolved, rule, index: context.index });
+    }
+  }
+
+  // writes each element of the value at its index of the "[*]" array, next wildcards distribute the element itself
+  protected writeElements(
+    rule: TRule,
+    target: TTarget,
+    path: string,
+    pieces: string[],
+    value: any,
+    context: RuleContext | undefined,
+  ): void {
+    const [head, ...rest] = pieces as [string, ...string[]];
+    const tail = rest.join("[*]");
+    const values: any[] = Array.isArray(value) ? value : [value];
+
+    // a flattened JSONPath result would silently shift the inner elements
+    if (
+      rest.length > 1 &&
+      values.some((item) => !Array.isArray(item) && !this.shouldSkip(item))
+    ) {
+      throw this.createError(
+        "write",
+        rule,
+        `cannot write value: '${this.resolvePath(path)}' has nested wildcards and expects an array of arrays`,
+        { value, target: this.resolvePath(path) },
+      );
+    }
+
+    const existing = this.guard(
+      "write",
+      rule,
+      value,
+      () => this.outpath.read(target, head),
+      { target: this.resolvePath(path) },
+    );
+    let count = values.length;
+
+    if (
+      Array.isArray(existing) &&
+      existing.length > 0 &&
+      existing.length !== values.length
+    ) {
+      if (this.options.wildcardLengthMismatch === "error") {
+        throw this.createError(
+          "write",
+          rule,
+          `cannot write value: ${values.length} elements do not match the ${existing.length} elements of '${this.resolvePath(head)}'`,
+          { value, target: this.resolvePath(path) },
+        );
+      }
+
+      if (this.options.wildcardLengthMismatch === "shortest") {
+        count = Math.min(count, existing.length);
+      }
+    }
+
+    if ((existing === undefined || existing === null) && head) {
+      this.write(rule, target, head, [], context, "overwrite");
+    }
+
+    for (let index = 0; index < count; index++) {
+      if (!this.shouldSkip(values[index])) {
+        this.write(
+          rule,
+          target,
+          `${head}[${index}]${tail}`,
+          values[index],
+          context,
+        );
+      }
+    }
+  }
+
+  // adds the value to the array of the marker, or a new element holding the value at the tail path
+  protected insertElement(
+    rule: TRule,
+    target: TTarget,
+    path: string,
+    { head, marker, tail }: { head: string; marker: ArrayMarker; tail: string },
+    value: any,
+    context: RuleContext | undefined,
+  ): void {
+    this.guard(
+      "write",
+      rule,
+      value,
+      () => {
+        if (context?.original) {
+          detachPath(target, context.original, head, true);
+        }
+
+        let array = this.outpath.read(target, head);
+        if (array === undefined || array === null) {
+          this.outpath.write(target, head, []);
+          array = this.outpath.read(target, head);
+        }
+
+        if (!Array.isArray(array)) {
+          throw new Error(`'${this.resolvePath(head)}' is not an array`);
+        }
+
+        let element = value;
+        if (tail) {
+          // the tail may hold wildcards or markers of its own, its writes are part of this one
+          element = {};
+          this.write(
+            rule,
+            element,
+            tail.startsWith(".") ? tail.slice(1) : tail,
+            value,
+            context && { ...context, writes: null, original: null },
+          );
+        }
+
+        (context?.insertions ?? new ArrayInsertions()).insert(
+          array,
+          marker,
+          context?.order ?? [],
+          element,
+        );
+      },
+      { target: this.resolvePath(path) },
+    );
+
+    context?.writes?.push({
+      target: this.resolvePath(head),
+      rule,
+      index: context.index,
+    });
+  }
+
+  // context of the rule at the given index of a nested structure or a group
+  protected nestedContext(
+    context: RuleContext | undefined,
+    index: number,
+  ): RuleContext | undefined {
+    return context && { ...context, order: [...context.order, index] };
+  }
+
+  // path of the first target, parent path of nested structures
+  protected primaryPath(rule: TRule): string {
+    const path = ruleTargets(rule.target)[0]?.path;
+    return this.resolvePath(typeof path === "string" ? path : "");
+  }
+
+  // resolves the target path and writes the value, once per element for templates over a wildcard or filter source
+  protected writeTarget(
+    rule: TRule,
+    path: TargetEntry["path"],
+    data: any,
+    source: TSource,
+    target: TTarget,
+    extractData: (source: TSource, jsonPath: string) => any,
+    value: any,
+    context: RuleContext | undefined,
+    skip: boolean,
+  ): void {
+    const location = { target: this.resolvePath(describeTargetPath(path)) };
+    const elements = this.templateElements(rule, path, data);
+
+    if (!elements) {
+      const resolved = this.guard(
+        "write",
+        rule,
+        value,
+        () => this.targetPath(path, data, source, target, extractData),
+        location,
+      );
+
+      this.write(rule, target, resolved, value, context);
+      return;
+    }
+
+    if (!Array.isArray(value) || value.length !== elements.length) {
+      throw this.createError(
+        "write",
+        rule,
+        `expected one value per element of '${rule.source}' for the placeholders of '${describeTargetPath(path)}'`,
+        { ...location, value },
+      );
+    }
+
+    elements.forEach((element, index) => {
+      const item = value[index];
+      if (skip && this.shouldSkip(item)) {
+        return;
+      }
+
+      const resolved = this.guard(
+        "write",
+        rule,
+        item,
+        () => this.targetPath(path, element, source, target, extractData),
+        location,
+      );
+
+      this.write(rule, target, resolved, item, context);
+    });
+  }
+
+  // the elements matched by a wildcard or filter source, when the template reads the extracted value
+  protected templateElements(
+    rule: TRule,
+    path: TargetEntry["path"],
+    data: any,
+  ): any[] | null {
+    if (
+      typeof path !== "string" ||
+      rule.source === undefined ||
+      !Array.isArray(data) ||
+      parseSimpleJsonPath(joinJsonPath("$", rule.source)) !== null
+    ) {
+      return null;
+    }
+
+    const readsValue = parseTargetTemplate(path)?.some(
+      (part) => typeof part !== "string" && !part.placeholder.startsWith("$"),
+    );
+
+    return readsValue ? data : null;
+  }
+
+  // templates and functions are resolved with the extracted value, static paths are returned as is
+  protected targetPath(
+    path: TargetEntry["path"],
+    data: any,
+    source: TSource,
+    target: TTarget,
+    extractData: (source: TSource, jsonPath: string) => any,
+  ): string {
+    if (typeof path === "function") {
+      return functionTargetPath(path(data, source, target));
+    }
+
+    const parts = parseTargetTemplate(path);
+    if (!parts) {
+      return path;
+    }
+
+    return parts
+      .map((part) => {
+        if (typeof part === "string") {
+          return part;
+        }
+
+        // "{}" is the extracted value, "{$.path}" reads the source and "{path}" the extracted value
+        const { placeholder } = part;
+        const value =
+          placeholder === ""
+            ? data
+            : placeholder.startsWith("$")
+              ? this.readExpression(placeholder, source, extractData)
+              : this.readExpression(
+                  joinJsonPath("$", placeholder),
+                  data,
+                  extractData,
+                );
+
+        return placeholderSegment(placeholder, value);
+      })
+      .join("");
+  }
+
+  protected handleFailure(
+    error: unknown,
     rule: TRule,
+    context: RuleContext | undefined,
+  ): void {
+    const failure = this.wrapError(error, "rule", rule);
+
+    if (context) {
+      failure.index ??= context.index;
+    }
+
+    if (!context?.errors) {
+      throw failure;
+    }
+
+    context.errors.push(failure);
+  }
+
+  abstract processRule(
+    rule: TRule | TGroup,
     source: TSource,
     target: TTarget,
     extractData: (source: TSource, jsonPath: string) => any,
+    context?: RuleContext,
   ): void | Promise<void>;
 }
 
 export class SyncRuleProcessor<
   TSource = UnknownSource,
   TTarget = UnknownTarget,
-> extends BaseRuleProcessor<TSource, TTarget, RuleObject> {
+> extends BaseRuleProcessor<TSource, TTarget, RuleObject, RuleGroup> {
   processRule(
-    rule: RuleObject,
+    rule: RuleObject | RuleGroup,
     source: TSource,
     target: TTarget,
     extractData: (source: TSource, jsonPath: string) => any,
+    context?: RuleContext,
   ): void {
-    if (rule.constant !== undefined) {
-      this.processConstantRule(rule, source, target);
+    if (isRuleGroup(rule)) {
+      this.processGroup(rule, source, target, extractData, context);
       return;
     }
 
-    if (!rule.source) {
-      throw new Error("Rule must have either 'source' or 'constant' defined");
+    try {
+      if (
+        rule.when !== undefined &&
+        !this.guard("condition", rule, undefined, () =>
+          typeof rule.when === "string"
+            ? this.testExpression(rule.when, source, extractData)
+            : rule.when!(source, target),
+        )
+      ) {
+        if (rule.otherwise) {
+          const otherwise = this.subRule(rule, rule.otherwise);
+          this.processRule(otherwise, source, target, extractData, context);
+        }
+        return;
+      }
+
+      if (rule.switch !== undefined) {
+        const value = this.guard("condition", rule, undefined, () =>
+          typeof rule.switch === "string"
+            ? this.readExpression(rule.switch, source, extractData)
+            : rule.switch!(source, target),
+        );
+
+        const selected = this.selectCase(rule, value);
+        if (selected) {
+          this.processRule(selected, source, target, extractData, context);
+        }
+        return;
+      }
+
+      if (rule.constant !== undefined) {
+        this.processConstantRule(rule, source, target, extractData, context);
+        return;
+      }
+
+      if (!rule.source && !rule.sources) {
+        throw this.createError(
+          "rule",
+          rule,
+          "Rule must have either 'source' or 'constant' defined",
+        );
+      }
+
+      this.processSourceRule(rule, source, target, extractData, context);
+    } catch (error) {
+      this.handleFailure(error, rule, context);
+    }
+  }
+
+  private processGroup(
+    group: RuleGroup,
+    source: TSource,
+    target: TTarget,
+    extractData: (source: TSource, jsonPath: string) => any,
+    context?: RuleContext,
+  ): void {
+    try {
+      if (group.filter) {
+        const data = this.groupData(group, source, extractData);
+        if (
+          !this.guard("filter", this.groupRule(group), data, () =>
+            group.filter!(data, source, target),
+          )
+        ) {
+          return;
+        }
+      }
+    } catch (error) {
+      this.handleFailure(error, this.groupRule(group), context);
+      return;
     }
 
-    this.processSourceRule(rule, source, target, extractData);
+    const processor = new SyncRuleProcessor<TSource, TTarget>(
+      this.outpath,
+      this.groupOptions(group),
+      this.path,
+    );
+
+    group.rules.forEach((rule, index) => {
+      processor.processRule(
+        scopeRule(rule, group),
+        source,
+        target,
+        extractData,
+        this.nestedContext(context, index),
+      );
+    });
   }
 
   private processConstantRule(
     rule: RuleObject,
     source: TSource,
     target: TTarget,
+    extractData: (source: TSource, jsonPath: string) => any,
+    context?: RuleContext,
   ): void {
-    if (rule.filter && !rule.filter(rule.constant, source, target)) {
+    if (
+      rule.filter &&
+      !this.guard("filter", rule, rule.constant, () =>
+        rule.filter!(rule.constant, source, target),
+      )
+    ) {
       return;
     }
 
@@ -88,9 +910,20 @@ export class SyncRuleProcessor<
       rule,
       source,
       target,
+      extractData,
+      context,
     );
 
-    this.outpath.write(target, rule.target, finalValue);
+    this.writeTargets(
+      rule,
+      rule.constant,
+      source,
+      target,
+      extractData,
+      finalValue,
+      context,
+      false,
+    );
   }
 
   private processSourceRule(
@@ -98,11 +931,23 @@ export class SyncRuleProcessor<
     source: TSource,
     target: TTarget,
     extractData: (source: TSource, jsonPath: string) => any,
+    context?: RuleContext,
   ): void {
-    const jsonPath = this.normalizeJsonPath(rule.source!);
-    const data = extractData(source, jsonPath);
+    const data = rule.sources
+      ? this.extractSources(rule, source, extractData)
+      : this.extract(rule, source, extractData);
+
+    // multi-source rules with missing sources are skipped, unless they have a default value
+    if (rule.sources && data === undefined && rule.defaultValue === undefined) {
+      return;
+    }
 
-    if (rule.filter && !rule.filter(data, source, target)) {
+    if (
+      rule.filter &&
+      !this.guard("filter", rule, data, () =>
+        rule.filter!(data, source, target),
+      )
+    ) {
       return;
     }
 
@@ -114,13 +959,127 @@ export class SyncRuleProcessor<
       valueToMap = rule.defaultValue;
     }
 
-    valueToMap = this.transformAndFailOn(valueToMap, rule, source, target);
+    const finalValue = this.transformAndFailOn(
+      valueToMap,
+      rule,
+      source,
+      target,
+      extractData,
+      context,
+    );
 
-    if (this.shouldSkip(valueToMap)) {
-      return;
+    this.writeTargets(
+      rule,
+      valueToMap,
+      source,
+      target,
+      extractData,
+      finalValue,
+      context,
+      true,
+    );
+  }
+
+  // writes the value to every target, after its own transform
+  private writeTargets(
+    rule: RuleObject,
+    data: any,
+    source: TSource,
+    target: TTarget,
+    extractData: (source: TSource, jsonPath: string) => any,
+    value: any,
+    context: RuleContext | undefined,
+    skip: boolean,
+  ): void {
+    for (const { path, transform } of ruleTargets(rule.target)) {
+      const location = { target: this.resolvePath(describeTargetPath(path)) };
+      const targetValue = transform
+        ? this.guard(
+            "transform",
+            rule,
+            value,
+            () => transform(value, source, target),
+            location,
+          )
+        : value;
+
+      if (skip && this.shouldSkip(targetValue)) {
+        continue;
+      }
+
+      this.writeTarget(
+        rule,
+        path,
+        data,
+        source,
+        target,
+        extractData,
+        targetValue,
+        context,
+        skip,
+      );
     }
+  }
+
+  private mapNested(
+    value: any,
+    nested: NonNullable<RuleObject["mapper"]>,
+    path: string,
+    extractData: (source: TSource, jsonPath: string) => any,
+    context?: RuleContext,
+  ): any {
+    const { rules, options } = this.resolveNested(nested);
+    const processor = new SyncRuleProcessor<any, any>(
+      this.outpath,
+      options,
+      path,
+    );
+    const result = {};
+    // nothing in the new result is shared with the original target
+    const resultContext = context && { ...context, original: null };
+
+    rules.forEach((nestedRule, index) => {
+      processor.processRule(
+        nestedRule,
+        value,
+        result,
+        extractData,
+        this.nestedContext(resultContext, index),
+      );
+    });
+
+    return result;
+  }
+
+  private mapEach(
+    value: any,
+    rule: RuleObject,
+    extractData: (source: TSource, jsonPath: string) => any,
+    context?: RuleContext,
+  ): any[] {
+    const elements: any[] = Array.isArray(value) ? value : [value];
+    const path = this.primaryPath(rule);
+    const result: any[] = [];
+
+    elements.forEach((element, index) => {
+      if (this.shouldSkip(element)) {
+        return;
+      }
 
-    this.outpath.write(target, rule.target, valueToMap);
+      result.push(
+        element === null || element === undefined
+          ? element
+          : this.mapNested(
+              element,
+              rule.each!,
+              `${path}[${index}]`,
+              extractData,
+              context,
+            ),
+      );
+    });
+
+    return result;
   }
 
   private transformAndFailOn(
@@ -128,49 +1087,215 @@ export class SyncRuleProcessor<
     rule: RuleObject,
     source: TSource,
     target: TTarget,
+    extractData: (source: TSource, jsonPath: string) => any,
+    context?: RuleContext,
   ): any {
-    if (rule.transform) {
-      value = rule.transform(value, source, target);
+    if (value !== null && value !== undefined) {
+      if (rule.mapper) {
+        value = this.mapNested(
+          value,
+          rule.mapper,
+          this.primaryPath(rule),
+          extractData,
+          context,
+        );
+      } else if (rule.each) {
+        value = this.mapEach(value, rule, extractData, context);
+      }
     }
 
-    if (rule.failOn && rule.failOn(value, source, target)) {
-      throw this.createError(rule.target, "condition failed");
+    for (const { transform, failOn, step } of this.transformSteps(rule)) {
+      value = this.guard(
+        "transform",
+        rule,
+        value,
+        () => transform(value, source, target),
+        { step },
+      );
+
+      this.checkFailOn(rule, failOn, value, source, target, step);
     }
 
+    this.checkFailOn(rule, rule.failOn, value, source, target);
+
     return value;
   }
+
+  private checkFailOn(
+    rule: RuleObject,
+    failOn: RuleObject["failOn"],
+    value: any,
+    source: TSource,
+    target: TTarget,
+    step?: number,
+  ): void {
+    if (!failOn) {
+      return;
+    }
+
+    const result = this.guard(
+      "failOn",
+      rule,
+      value,
+      () => failOn(value, source, target),
+      { step },
+    );
+
+    if (result) {
+      throw this.createFailOnError(rule, result, value, step);
+    }
+  }
 }
 
 export class AsyncRuleProcessor<
   TSource = UnknownSource,
   TTarget = UnknownTarget,
-> extends BaseRuleProcessor<TSource, TTarget, AsyncRuleObject> {
+> extends BaseRuleProcessor<TSource, TTarget, AsyncRuleObject, AsyncRuleGroup> {
   async processRule(
-    rule: AsyncRuleObject,
+    rule: AsyncRuleObject | AsyncRuleGroup,
     source: TSource,
     target: TTarget,
     extractData: (source: TSource, jsonPath: string) => any,
+    context?: RuleContext,
   ): Promise<void> {
-    if (rule.constant !== undefined) {
-      await this.processConstantRule(rule, source, target);
+    if (isRuleGroup(rule)) {
+      await this.processGroup(rule, source, target, extractData, context);
       return;
     }
 
-    if (!rule.source) {
-      throw new Error("Rule must have either 'source' or 'constant' defined");
+    try {
+      if (
+        rule.when !== undefined &&
+        !(await this.guardAsync("condition", rule, undefined, () =>
+          typeof rule.when === "string"
+            ? this.testExpression(rule.when, source, extractData)
+            : rule.when!(source, target),
+        ))
+      ) {
+        if (rule.otherwise) {
+          const otherwise = this.subRule(rule, rule.otherwise);
+          await this.processRule(
+            otherwise,
+            source,
+            target,
+            extractData,
+            context,
+          );
+        }
+        return;
+      }
+
+      if (rule.switch !== undefined) {
+        const value = await this.guardAsync("condition", rule, undefined, () =>
+          typeof rule.switch === "string"
+            ? this.readExpression(rule.switch, source, extractData)
+            : rule.switch!(source, target),
+        );
+
+        const selected = this.selectCase(rule, value);
+        if (selected) {
+          await this.processRule(
+            selected,
+            source,
+            target,
+            extractData,
+            context,
+          );
+        }
+        return;
+      }
+
+      if (rule.constant !== undefined) {
+        await this.processConstantRule(
+          rule,
+          source,
+          target,
+          extractData,
+          context,
+        );
+        return;
+      }
+
+      if (!rule.source && !rule.sources) {
+        throw this.createError(
+          "rule",
+          rule,
+          "Rule must have either 'source' or 'constant' defined",
+        );
+      }
+
+      await this.processSourceRule(rule, source, target, extractData, context);
+    } catch (error) {
+      this.handleFailure(error, rule, context);
+    }
+  }
+
+  private async processGroup(
+    group: AsyncRuleGroup,
+    source: TSource,
+    target: TTarget,
+    extractData: (source: TSource, jsonPath: string) => any,
+    context?: RuleContext,
+  ): Promise<void> {
+    try {
+      if (group.filter) {
+        const data = this.groupData(group, source, extractData);
+        if (
+          !(await this.guardAsync("filter", this.groupRule(group), data, () =>
+            group.filter!(data, source, target),
+          ))
+        ) {
+          return;
+        }
+      }
+    } catch (error) {
+      this.handleFailure(error, this.groupRule(group), context);
+      return;
     }
 
-    await this.processSourceRule(rule, source, target, extractData);
+    const options = this.groupOptions(group);
+    const processor = new AsyncRuleProcessor<TSource, TTarget>(
+      this.outpath,
+      options,
+      this.path,
+    );
+
+    const processRule = (index: number): Promise<void> =>
+      processor.processRule(
+        scopeRule(group.rules[index]!, group),
+        source,
+        target,
+        extractData,
+        this.nestedContext(context, index),
+      );
+
+    const indexes = [...group.rules.keys()];
+
+    if (options.parallelRun) {
+      await ConcurrencyController.executeWithLimitedConcurrency(
+        indexes,
+        processRule,
+        options.parallelJobsLimit,
+      );
+    } else {
+      for (const index of indexes) {
+        await processRule(index);
+      }
+    }
   }
 
   private async processConstantRule(
     rule: AsyncRuleObject,
     source: TSource,
     target: TTarget,
+    extractData: (source: TSource, jsonPath: string) => any,
+    context?: RuleContext,
   ): Promise<void> {
     if (
       rule.filter &&
-      !(await Promise.resolve(rule.filter(rule.constant, source, target)))
+      !(await this.guardAsync("filter", rule, rule.constant, () =>
+        rule.filter!(rule.constant, source, target),
+      ))
     ) {
       return;
     }
@@ -180,9 +1305,20 @@ export class AsyncRuleProcessor<
       rule,
       source,
       target,
+      extractData,
+      context,
     );
 
-    this.outpath.write(target, rule.target, finalValue);
+    await this.writeTargets(
+      rule,
+      rule.constant,
+      source,
+      target,
+      extractData,
+      finalValue,
+      context,
+      false,
+    );
   }
 
   private async processSourceRule(
@@ -190,13 +1326,22 @@ export class AsyncRuleProcessor<
     source: TSource,
     target: TTarget,
     extractData: (source: TSource, jsonPath: string) => any,
+    context?: RuleContext,
   ): Promise<void> {
-    const jsonPath = this.normalizeJsonPath(rule.source!);
-    const data = extractData(source, jsonPath);
+    const data = rule.sources
+      ? this.extractSources(rule, source, extractData)
+      : this.extract(rule, source, extractData);
+
+    // multi-source rules with missing sources are skipped, unless they have a default value
+    if (rule.sources && data === undefined && rule.defaultValue === undefined) {
+      return;
+    }
 
     if (
       rule.filter &&
-      !(await Promise.resolve(rule.filter(data, source, target)))
+      !(await this.guardAsync("filter", rule, data, () =>
+        rule.filter!(data, source, target),
+      ))
     ) {
       return;
     }
@@ -209,18 +1354,155 @@ export class AsyncRuleProcessor<
       valueToMap = rule.defaultValue;
     }
 
-    valueToMap = await this.transformAndFailOn(
+    const finalValue = await this.transformAndFailOn(
       valueToMap,
       rule,
       source,
       target,
+      extractData,
+      context,
     );
 
-    if (this.shouldSkip(valueToMap)) {
-      return;
+    await this.writeTargets(
+      rule,
+      valueToMap,
+      source,
+      target,
+      extractData,
+      finalValue,
+      context,
+      true,
+    );
+  }
+
+  // writes the value to every target, after its own transform
+  private async writeTargets(
+    rule: AsyncRuleObject,
+    data: any,
+    source: TSource,
+    target: TTarget,
+    extractData: (source: TSource, jsonPath: string) => any,
+    value: any,
+    context: RuleContext | undefined,
+    skip: boolean,
+  ): Promise<void> {
+    for (const { path, transform } of ruleTargets(rule.target)) {
+      const location = { target: this.resolvePath(describeTargetPath(path)) };
+      const targetValue = transform
+        ? await this.guardAsync(
+            "transform",
+            rule,
+            value,
+            () => transform(value, source, target),
+            location,
+          )
+        : value;
+
+      if (skip && this.shouldSkip(targetValue)) {
+        continue;
+      }
+
+      this.writeTarget(
+        rule,
+        path,
+        data,
+        source,
+        target,
+        extractData,
+        targetValue,
+        context,
+        skip,
+      );
+    }
+  }
+
+  private async mapNested(
+    value: any,
+    nested: NonNullable<AsyncRuleObject["mapper"]>,
+    path: string,
+    extractData: (source: TSource, jsonPath: string) => any,
+    context?: RuleContext,
+  ): Promise<any> {
+    const { rules, options } = this.resolveNested(nested);
+    const processor = new AsyncRuleProcessor<any, any>(
+      this.outpath,
+      options,
+      path,
+    );
+    const result = {};
+    // nothing in the new result is shared with the original target
+    const resultContext = context && { ...context, original: null };
+
+    const processRule = (index: number): Promise<void> =>
+      processor.processRule(
+        rules[index]!,
+        value,
+        result,
+        extractData,
+        this.nestedContext(resultContext, index),
+      );
+
+    const indexes = [...rules.keys()];
+
+    if (options.parallelRun) {
+      await ConcurrencyController.executeWithLimitedConcurrency(
+        indexes,
+        processRule,
+        options.parallelJobsLimit,
+      );
+    } else {
+      for (const index of indexes) {
+        await processRule(index);
+      }
+    }
+
+    return result;
+  }
+
+  private async mapEach(
+    value: any,
+    rule: AsyncRuleObject,
+    extractData: (source: TSource, jsonPath: string) => any,
+    context?: RuleContext,
+  ): Promise<any[]> {
+    const elements: any[] = Array.isArray(value) ? value : [value];
+    const path = this.primaryPath(rule);
+    const indexes = [...elements.keys()].filter(
+      (index) => !this.shouldSkip(elements[index]),
+    );
+    const result: any[] = new Array(indexes.length);
+
+    const mapElement = async (position: number): Promise<void> => {
+      const index = indexes[position]!;
+      const element = elements[index];
+
+      result[position] =
+        element === null || element === undefined
+          ? element
+          : await this.mapNested(
+              element,
+              rule.each!,
+              `${path}[${index}]`,
+              extractData,
+              context,
+            );
+    };
+
+    const positions = [...indexes.keys()];
+
+    if (this.options.parallelRun) {
+      await ConcurrencyController.executeWithLimitedConcurrency(
+        positions,
+        mapElement,
+        this.options.parallelJobsLimit,
+      );
+    } else {
+      for (const position of positions) {
+        await mapElement(position);
+      }
     }
 
-    this.outpath.write(target, rule.target, valueToMap);
+    return result;
   }
 
   private async transformAndFailOn(
@@ -228,18 +1510,66 @@ export class AsyncRuleProcessor<
     rule: AsyncRuleObject,
     source: TSource,
     target: TTarget,
+    extractData: (source: TSource, jsonPath: string) => any,
+    context?: RuleContext,
   ): Promise<any> {
-    if (rule.transform) {
-      value = await Promise.resolve(rule.transform(value, source, target));
+    if (value !== null && value !== undefined) {
+      if (rule.mapper) {
+        value = await this.mapNested(
+          value,
+          rule.mapper,
+          this.primaryPath(rule),
+          extractData,
+          context,
+        );
+      } else if (rule.each) {
+        value = await this.mapEach(value, rule, extractData, context);
+      }
     }
 
-    if (
-      rule.failOn &&
-      (await Promise.resolve(rule.failOn(value, source, target)))
-    ) {
-      throw this.createError(rule.target, "condition failed");
+    for (const { transform, failOn, step } of this.transformSteps(rule)) {
+      value = await this.guardAsync(
+        "transform",
+        rule,
+        value,
+        () => transform(value, source, target),
+        { step },
+      );
+
+      await this.checkFailOn(rule, failOn, value, source, target, step);
     }
 
+    await this.checkFailOn(rule, rule.failOn, value, source, target);
+
     return value;
   }
+
+  private async checkFailOn(
+    rule: AsyncRuleObject,
+    failOn: AsyncRuleObject["failOn"],
+    value: any,
+    source: TSource,
+    target: TTarget,
+    step?: number,
+  ): Promise<void> {
+    if (!failOn) {
+      return;
+    }
+
+    const result = await this.guardAsync(
+      "failOn",
+      rule,
+      value,
+      () => failOn(value, source, target),
+      { step },
+    );
+
+    if (result) {
+      throw this.createFailOnError(rule, result, value, step);
+    }
+  }
+}
+
+function stepLabel(step: number | undefined): string {
+  return step === undefined ? "" : ` at step ${step}`;
 }
@@ -0,0 +1,124 @@
+import type {
+  AsyncRuleObject,
+  RuleObject,
+  TargetFunction,
+} from "../types/mapper.js";
+import { escapeOutPathSegment, toOutPath } from "./paths.js";
+
+export type TargetEntry = {
+  path: string | TargetFunction; // outpath or template, or a function computing it
+  transform: ((data: any, source: any, target: any) => any) | null; // per-target transform
+};
+
+// literal text, or the expression of a {placeholder}
+export type TemplatePart = string | { placeholder: string };
+
+// a single path, an array of paths, a map of path to per-target transform or a function
+export function ruleTargets(
+  target: RuleObject["target"] | AsyncRuleObject["target"],
+): TargetEntry[] {
+  if (typeof target === "string" || typeof target === "function") {
+    return [{ path: target, transform: null }];
+  }
+
+  if (Array.isArray(target)) {
+    return target.map((path) => ({ path, transform: null }));
+  }
+
+  return Object.entries(target).map(([path, transform]) => ({
+    path,
+    transform: transform ?? null,
+  }));
+}
+
+export function describeTargets(
+  target: RuleObject["target"] | AsyncRuleObject["target"],
+): string {
+  return ruleTargets(target)
+    .map((entry) => describeTargetPath(entry.path))
+    .join(", ");
+}
+
+export function describeTargetPath(path: TargetEntry["path"]): string {
+  return typeof path === "function" ? "<function>" : path;
+}
+
+// "crewById.{id}" has a placeholder, returns null for static paths
+export function parseTargetTemplate(path: string): TemplatePart[] | null {
+  if (!path.includes("{") && !path.includes("}")) {
+    return null;
+  }
+
+  const parts: TemplatePart[] = [];
+  let start = 0;
+
+  while (start < path.length) {
+    const open = path.indexOf("{", start);
+    const close = path.indexOf("}", start);
+
+    if (close !== -1 && (open === -1 || close < open)) {
+      throw new Error(
+        `target '${path}' has an unexpected '}' at character ${close}`,
+      );
+    }
+
+    if (open === -1) {
+      parts.push(path.slice(start));
+      break;
+    }
+
+    if (close === -1) {
+      throw new Error(
+        `target '${path}' has an unclosed '{' at character ${open}`,
+      );
+    }
+
+    if (open > start) {
+      parts.push(path.slice(start, open));
+    }
+
+    parts.push({ placeholder: path.slice(open + 1, close).trim() });
+    start = close + 1;
+  }
+
+  return parts;
+}
+
+// placeholder values become single segments, their dots are escaped
+export function placeholderSegment(
+  placeholder: string,
+  value: unknown,
+): string {
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return String(value);
+  }
+
+  if (typeof value !== "string" || value === "") {
+    const kind =
+      value === null ? "null" : value === "" ? "an empty string" : typeof value;
+    throw new Error(
+      `placeholder '{${placeholder}}' resolved to ${kind}, expected a string or a number`,
+    );
+  }
+
+  return escapeOutPathSegment(value);
+}
+
+// the path returned by a target function, segments are escaped into a path
+export function functionTargetPath(path: unknown): string {
+  if (Array.isArray(path) && path.length > 0) {
+    return toOutPath(
+      path.map((segment) =>
+        typeof segment === "number" ? segment : String(segment),
+      ),
+    );
+  }
+
+  if (typeof path !== "string" || path === "") {
+    throw new Error(
+      "target function must return a non-empty path or array of segments",
+    );
+  }
+
+  return path;
+}
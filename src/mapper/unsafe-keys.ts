@@ -0,0 +1,30 @@
+// keys reaching the prototypes of the target, dot-prop refuses to write them
+export const UNSAFE_KEYS = new Set(["__proto__", "prototype", "constructor"]);
+
+// first unsafe key of a dot-prop path, wildcards and array markers included
+export function findUnsafeKey(path: string): string | null {
+  let key = "";
+
+  for (let index = 0; index < path.length; index++) {
+    const character = path[index]!;
+
+    if (character === "\\") {
+      const next = path[index + 1];
+      if (next === "\\" || next === "." || next === "[") {
+        key += next;
+        index++;
+      } else {
+        key += character;
+      }
+    } else if (character === "." || character === "[" || character === "]") {
+      if (UNSAFE_KEYS.has(key)) {
+        return key;
+      }
+      key = "";
+    } else {
+      key += character;
+    }
+  }
+
+  return UNSAFE_KEYS.has(key) ? key : null;
+}
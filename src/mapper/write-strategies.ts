@@ -0,0 +1,73 @@
+import type { WriteStrategy } from "../types/mapper.js";
+import { UNSAFE_KEYS } from "./unsafe-keys.js";
+
+export const WRITE_STRATEGIES = new Set([
+  "overwrite",
+  "deepMerge",
+  "concat",
+  "setIfAbsent",
+]);
+
+// returned when the existing value is kept, nothing is written
+export const KEEP_EXISTING: unique symbol = Symbol("KEEP_EXISTING");
+
+// the value written at a path already holding the existing value
+export function mergeWrite(
+  strategy: WriteStrategy,
+  existing: any,
+  value: any,
+  path: string,
+  hardened: boolean,
+): any {
+  if (typeof strategy === "function") {
+    return strategy(existing, value, path);
+  }
+
+  switch (strategy) {
+    case "deepMerge":
+      return deepMerge(existing, value, hardened);
+
+    case "concat":
+      if (
+        existing !== undefined &&
+        existing !== null &&
+        !Array.isArray(existing)
+      ) {
+        throw new Error(`cannot concat value: '${path}' is not an array`);
+      }
+
+      return [...(existing ?? []), ...(Array.isArray(value) ? value : [value])];
+
+    case "setIfAbsent":
+      return existing === undefined ? value : KEEP_EXISTING;
+
+    default:
+      return value;
+  }
+}
+
+// undefined properties of the value keep the existing ones, arrays and class instances are replaced
+function deepMerge(existing: any, value: any, hardened: boolean): any {
+  if (!isPlainObject(existing) || !isPlainObject(value)) {
+    return value;
+  }
+
+  const merged: Record<string, any> = { ...existing };
+
+  for (const [key, item] of Object.entries(value)) {
+    if (item !== undefined && !(hardened && UNSAFE_KEYS.has(key))) {
+      merged[key] = deepMerge(merged[key], item, hardened);
+    }
+  }
+
+  return merged;
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
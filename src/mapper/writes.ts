@@ -0,0 +1,34 @@
+import type { AsyncRuleObject, RuleObject } from "../types/mapper.js";
+import { parseOutPath } from "./paths.js";
+
+// value written by a rule, recorded to point validation issues at their rule
+export type TargetWrite = {
+  target: string; // full target path
+  rule: RuleObject | AsyncRuleObject;
+  index: number; // index of the rule in the mapped structure
+};
+
+// the last rule that wrote the path itself, or the closest of its parents
+export function findTargetWrite(
+  writes: TargetWrite[],
+  path: string,
+): TargetWrite | undefined {
+  const segments = path === "" ? [] : parseOutPath(path).map(String);
+  let found: TargetWrite | undefined;
+  let foundLength = -1;
+
+  for (const write of writes) {
+    const written = parseOutPath(write.target).map(String);
+
+    if (
+      written.length <= segments.length &&
+      written.length >= foundLength &&
+      written.every((segment, index) => segment === segments[index])
+    ) {
+      found = write;
+      foundLength = written.length;
+    }
+  }
+
+  return found;
+}
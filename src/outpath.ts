@@ -1,4 +1,4 @@
-import { setProperty } from "dot-prop";
+import { getProperty, setProperty } from "dot-prop";
 import type { UnknownTarget } from "./types/generic.js";
 
 export class OutPath<T = UnknownTarget> {
@@ -10,4 +10,8 @@ export class OutPath<T = UnknownTarget> {
     // Use dot-prop directly
     setProperty(target as Record<string, any>, path, value);
   }
+
+  read(target: T, path: string): any {
+    return path ? getProperty(target as Record<string, any>, path) : target;
+  }
 }
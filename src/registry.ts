@@ -0,0 +1,57 @@
+import type {
+  NamedReference,
+  RuleFunction,
+  RuleFunctionFactory,
+} from "./types/registry.js";
+
+// references of the functions created by registries, used to serialize them back
+const references = new WeakMap<Function, [string, ...any[]]>();
+
+export class TransformRegistry {
+  private factories = new Map<string, RuleFunctionFactory>();
+
+  register(name: string, factory: RuleFunctionFactory): this {
+    this.factories.set(name, factory);
+    return this;
+  }
+
+  has(name: string): boolean {
+    return this.factories.has(name);
+  }
+
+  names(): string[] {
+    return [...this.factories.keys()];
+  }
+
+  resolve(reference: NamedReference): RuleFunction {
+    const [name, ...args] =
+      typeof reference === "string" ? [reference] : reference;
+
+    if (typeof name !== "string") {
+      throw new Error(
+        `Invalid function reference ${JSON.stringify(reference)}, expected a name or [name, ...args]`,
+      );
+    }
+
+    const factory = this.factories.get(name);
+    if (!factory) {
+      throw new Error(`Unknown function '${name}'`);
+    }
+
+    const fn = factory(...args);
+    if (typeof fn !== "function") {
+      throw new Error(`Function '${name}' did not create a function`);
+    }
+
+    // a wrapper per reference, factories may return shared functions
+    const resolved: RuleFunction = (data, source, target) =>
+      fn(data, source, target);
+    references.set(resolved, [name, ...args]);
+
+    return resolved;
+  }
+}
+
+export function referenceOf(fn: Function): [string, ...any[]] | undefined {
+  return references.get(fn);
+}
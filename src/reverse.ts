@@ -0,0 +1,201 @@
+import type { Rule, RuleGroup, RuleObject, Structure } from "./types/mapper.js";
+import type { ReverseIssue, ReverseResult } from "./types/reverse.js";
+import { normalizeRule } from "./mapper/normalize-rule.js";
+import { isRuleGroup } from "./mapper/groups.js";
+import { parseTargetTemplate } from "./mapper/targets.js";
+import {
+  parseOutPath,
+  parseSimpleJsonPath,
+  splitWildcards,
+  toJsonPath,
+  toOutPath,
+} from "./mapper/paths.js";
+import { splitArrayMarker } from "./mapper/appends.js";
+
+export function reverseStructure(
+  structure: Structure,
+  assumeRoot = true,
+): ReverseResult {
+  const result: ReverseResult = { structure: [], skipped: [] };
+
+  structure.forEach((rule, index) => {
+    try {
+      result.structure.push(reverseRule(rule, assumeRoot));
+    } catch (error) {
+      result.skipped.push({
+        index,
+        rule,
+        reason: error instanceof Error ? error.message : String(error),
+      });
+    }
+  });
+
+  return result;
+}
+
+function reverseRule(rule: Rule, assumeRoot: boolean): Rule {
+  if (isRuleGroup(rule)) {
+    return reverseGroup(rule as RuleGroup, assumeRoot);
+  }
+
+  const ruleObj = normalizeRule(rule);
+
+  if (ruleObj.constant !== undefined) {
+    throw new Error("constant rules have no source to write back to");
+  }
+
+  if (ruleObj.sources) {
+    throw new Error("multi-source rules cannot be inverted");
+  }
+
+  if (ruleObj.when !== undefined || ruleObj.switch !== undefined) {
+    throw new Error("conditional rules cannot be inverted");
+  }
+
+  if (!ruleObj.source) {
+    throw new Error("rule has no source");
+  }
+
+  if (
+    typeof ruleObj.target === "function" ||
+    (typeof ruleObj.target === "string" && parseTargetTemplate(ruleObj.target))
+  ) {
+    throw new Error("dynamic targets cannot be inverted");
+  }
+
+  if (typeof ruleObj.target !== "string") {
+    throw new Error("multi-target rules cannot be inverted");
+  }
+
+  if (splitWildcards(ruleObj.target)) {
+    throw new Error("wildcard targets cannot be inverted");
+  }
+
+  if (splitArrayMarker(ruleObj.target)) {
+    throw new Error("array markers cannot be inverted");
+  }
+
+  if (ruleObj.filter) {
+    throw new Error("filter conditions cannot be inverted");
+  }
+
+  if (ruleObj.write === "concat" || typeof ruleObj.write === "function") {
+    throw new Error("concat and custom writes cannot be inverted");
+  }
+
+  if (ruleObj.transform && !ruleObj.reverseTransform) {
+    throw new Error("transform has no reverseTransform");
+  }
+
+  const nested = ruleObj.mapper ?? ruleObj.each;
+  if (nested && ruleObj.transform) {
+    throw new Error(
+      "rules combining a nested mapper and a transform cannot be inverted",
+    );
+  }
+
+  const jsonPath =
+    assumeRoot &&
+    !ruleObj.source.startsWith("$.") &&
+    !ruleObj.source.startsWith("$[")
+      ? `$.${ruleObj.source}`
+      : ruleObj.source;
+  const sourceSegments = parseSimpleJsonPath(jsonPath);
+
+  if (!sourceSegments) {
+    throw new Error(
+      `source '${ruleObj.source}' is not a simple JSONPath (filters, wildcards, slices and recursive descent cannot be inverted)`,
+    );
+  }
+
+  if (sourceSegments.length === 0) {
+    throw new Error(`source '${ruleObj.source}' does not select a property`);
+  }
+
+  const target = toOutPath(sourceSegments);
+  const reversed: RuleObject = {
+    source: toJsonPath(parseOutPath(ruleObj.target)),
+    target,
+  };
+
+  if (ruleObj.write !== undefined && ruleObj.write !== "overwrite") {
+    reversed.write = ruleObj.write;
+  }
+
+  if (ruleObj.reverseTransform) {
+    reversed.transform = ruleObj.reverseTransform;
+    if (ruleObj.transform) {
+      reversed.reverseTransform = ruleObj.transform;
+    }
+  }
+
+  if (nested) {
+    const nestedStructure = Array.isArray(nested)
+      ? nested
+      : nested.getStructure();
+    const nestedResult = reverseStructure(nestedStructure, assumeRoot);
+
+    if (nestedResult.skipped.length > 0) {
+      throw new Error(
+        `nested ${describeIssues(nestedResult.skipped)} cannot be inverted`,
+      );
+    }
+
+    reversed[ruleObj.mapper ? "mapper" : "each"] = nestedResult.structure;
+  }
+
+  return Array.isArray(rule) ? [reversed.source!, target] : reversed;
+}
+
+// the prefixes are swapped, the rules of the group are inverted with their relative paths
+function reverseGroup(group: RuleGroup, assumeRoot: boolean): RuleGroup {
+  if (group.filter) {
+    throw new Error("group filters cannot be inverted");
+  }
+
+  const groupResult = reverseStructure(group.rules, assumeRoot);
+
+  if (groupResult.skipped.length > 0) {
+    throw new Error(
+      `group ${describeIssues(groupResult.skipped)} cannot be inverted`,
+    );
+  }
+
+  const reversed: RuleGroup = { rules: groupResult.structure };
+
+  if (group.targetPrefix) {
+    reversed.sourcePrefix = toJsonPath(parseOutPath(group.targetPrefix));
+  }
+
+  if (group.sourcePrefix !== undefined) {
+    const jsonPath =
+      assumeRoot &&
+      !group.sourcePrefix.startsWith("$.") &&
+      !group.sourcePrefix.startsWith("$[")
+        ? `$.${group.sourcePrefix}`
+        : group.sourcePrefix;
+    const segments = parseSimpleJsonPath(jsonPath);
+
+    if (!segments) {
+      throw new Error(
+        `source prefix '${group.sourcePrefix}' is not a simple JSONPath`,
+      );
+    }
+
+    if (segments.length > 0) {
+      reversed.targetPrefix = toOutPath(segments);
+    }
+  }
+
+  if (group.options) {
+    reversed.options = group.options;
+  }
+
+  return reversed;
+}
+
+export function describeIssues(issues: ReverseIssue[]): string {
+  return issues
+    .map((issue) => `rule ${issue.index} (${issue.reason})`)
+    .join(", ");
+}
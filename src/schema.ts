@@ -0,0 +1,175 @@
+import type {
+  JsonSchema,
+  JsonSchemaType,
+  SchemaIssue,
+  ValidationResult,
+} from "./types/schema.js";
+import { toOutPath, type PathSegment } from "./mapper/paths.js";
+
+const hasOwnProperty = Object.prototype.hasOwnProperty;
+
+export function validateTarget(
+  schema: JsonSchema,
+  value: unknown,
+): ValidationResult {
+  const issues: SchemaIssue[] = [];
+  validateValue(schema, value, [], issues);
+
+  return { valid: issues.length === 0, issues };
+}
+
+function validateValue(
+  schema: JsonSchema,
+  value: any,
+  segments: PathSegment[],
+  issues: SchemaIssue[],
+): void {
+  const fail = (keyword: string, message: string, at = segments) => {
+    issues.push({ path: toOutPath(at), keyword, message });
+  };
+
+  if (schema === true) {
+    return;
+  }
+
+  if (schema === false) {
+    fail("false", "is not allowed");
+    return;
+  }
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+
+    if (!types.some((type) => matchesType(type, value))) {
+      fail("type", `must be ${types.join(" or ")}`);
+      return;
+    }
+  }
+
+  if (
+    schema.enum !== undefined &&
+    !schema.enum.some((allowed) => isEqual(allowed, value))
+  ) {
+    fail("enum", `must be one of ${JSON.stringify(schema.enum)}`);
+  }
+
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      fail("minimum", `must be >= ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      fail("maximum", `must be <= ${schema.maximum}`);
+    }
+    if (
+      schema.exclusiveMinimum !== undefined &&
+      value <= schema.exclusiveMinimum
+    ) {
+      fail("exclusiveMinimum", `must be > ${schema.exclusiveMinimum}`);
+    }
+    if (
+      schema.exclusiveMaximum !== undefined &&
+      value >= schema.exclusiveMaximum
+    ) {
+      fail("exclusiveMaximum", `must be < ${schema.exclusiveMaximum}`);
+    }
+  }
+
+  if (typeof value === "string") {
+    // lengths are counted in code points, as JSON Schema does
+    const length = [...value].length;
+
+    if (schema.minLength !== undefined && length < schema.minLength) {
+      fail("minLength", `must be at least ${schema.minLength} characters`);
+    }
+    if (schema.maxLength !== undefined && length > schema.maxLength) {
+      fail("maxLength", `must be at most ${schema.maxLength} characters`);
+    }
+    if (
+      schema.pattern !== undefined &&
+      !new RegExp(schema.pattern, "u").test(value)
+    ) {
+      fail("pattern", `must match pattern ${JSON.stringify(schema.pattern)}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      fail("minItems", `must have at least ${schema.minItems} items`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      fail("maxItems", `must have at most ${schema.maxItems} items`);
+    }
+    if (schema.items !== undefined) {
+      value.forEach((item, index) =>
+        validateValue(schema.items!, item, [...segments, index], issues),
+      );
+    }
+    return;
+  }
+
+  if (!isObject(value)) {
+    return;
+  }
+
+  for (const key of schema.required ?? []) {
+    if (!hasOwnProperty.call(value, key) || value[key] === undefined) {
+      fail("required", "is required", [...segments, key]);
+    }
+  }
+
+  for (const [key, propertySchema] of Object.entries(schema.properties ?? {})) {
+    // undefined properties are missing, as they are once serialized
+    if (hasOwnProperty.call(value, key) && value[key] !== undefined) {
+      validateValue(propertySchema, value[key], [...segments, key], issues);
+    }
+  }
+}
+
+function matchesType(type: JsonSchemaType, value: unknown): boolean {
+  switch (type) {
+    case "string":
+    case "boolean":
+      return typeof value === type;
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    case "integer":
+      return Number.isInteger(value);
+    case "null":
+      return value === null;
+    case "array":
+      return Array.isArray(value);
+    case "object":
+      return isObject(value);
+    default:
+      return false;
+  }
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+export function isEqual(a: any, b: any): boolean {
+  if (a === b) {
+    return true;
+  }
+
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return (
+      Array.isArray(a) &&
+      Array.isArray(b) &&
+      a.length === b.length &&
+      a.every((item, index) => isEqual(item, b[index]))
+    );
+  }
+
+  if (!isObject(a) || !isObject(b)) {
+    return false;
+  }
+
+  const keys = Object.keys(a);
+  return (
+    keys.length === Object.keys(b).length &&
+    keys.every((key) => hasOwnProperty.call(b, key) && isEqual(a[key], b[key]))
+  );
+}
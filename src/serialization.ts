@@ -0,0 +1,367 @@
+import type { AsyncRule, Rule, Structure } from "./types/mapper.js";
+import type { SerializedRule, SerializedStructure } from "./types/registry.js";
+import type { StructureDiagnostic } from "./types/structure.js";
+import { referenceOf, type TransformRegistry } from "./registry.js";
+import { StructureError } from "./errors.js";
+
+const FUNCTION_PROPERTIES = [
+  "transform",
+  "reverseTransform",
+  "filter",
+  "failOn",
+] as const;
+
+const PIPELINE_PROPERTIES = new Set(["transform", "reverseTransform"]);
+
+const NESTED_PROPERTIES = ["mapper", "each"] as const;
+
+// strings are expressions or write strategies, only [name, ...args] references are resolved
+const REFERENCE_PROPERTIES = ["when", "switch", "write"] as const;
+
+// functions already in the structure are kept, so loading a loaded structure is a no-op
+export function loadStructure(
+  json: string | SerializedStructure | Structure,
+  registry: TransformRegistry,
+): Structure {
+  const structure = typeof json === "string" ? JSON.parse(json) : json;
+  if (!Array.isArray(structure)) {
+    throw new Error("Cannot load structure: expected an array of rules");
+  }
+
+  const diagnostics: StructureDiagnostic[] = [];
+  const loaded = loadRules(structure, registry, diagnostics);
+
+  if (diagnostics.length > 0) {
+    throw new StructureError(diagnostics);
+  }
+
+  return loaded;
+}
+
+// named references of a structure used without a registry would only fail when mapping
+export function checkReferences(
+  structure: SerializedStructure | Structure,
+): void {
+  const diagnostics: StructureDiagnostic[] = [];
+  loadRules(structure, null, diagnostics);
+
+  if (diagnostics.length > 0) {
+    throw new StructureError(diagnostics);
+  }
+}
+
+export function serializeStructure(
+  structure: Structure | SerializedStructure,
+): SerializedStructure {
+  const issues: string[] = [];
+  const serialized = serializeRules(structure, issues);
+
+  if (issues.length > 0) {
+    throw new Error(`Cannot serialize structure: ${issues.join(", ")}`);
+  }
+
+  return serialized;
+}
+
+function loadRules(
+  rules: (SerializedRule | Rule)[],
+  registry: TransformRegistry | null,
+  diagnostics: StructureDiagnostic[],
+): Structure {
+  return rules.map((rule, index) => {
+    if (Array.isArray(rule) || typeof rule !== "object" || rule === null) {
+      return rule as Rule;
+    }
+
+    const loaded: Record<string, any> = { ...rule };
+    const report = (message: string) =>
+      diagnostics.push({
+        index,
+        rule: rule as AsyncRule,
+        severity: "error",
+        code: "invalid-reference",
+        message,
+      });
+
+    for (const key of FUNCTION_PROPERTIES) {
+      const reference = loaded[key];
+      if (reference === undefined || typeof reference === "function") {
+        continue;
+      }
+
+      try {
+        loaded[key] =
+          PIPELINE_PROPERTIES.has(key) && isPipeline(reference)
+            ? loadPipeline(reference, registry)
+            : resolveReference(reference, registry);
+      } catch (error) {
+        report(
+          `${key}: ${error instanceof Error ? error.message : String(error)}`,
+        );
+      }
+    }
+
+    if (isPlainObject(loaded.target)) {
+      loaded.target = Object.fromEntries(
+        Object.entries(loaded.target).map(([path, reference]) => {
+          if (reference === null || typeof reference === "function") {
+            return [path, reference];
+          }
+
+          try {
+            return [path, resolveReference(reference, registry)];
+          } catch (error) {
+            report(
+              `target '${path}': ${error instanceof Error ? error.message : String(error)}`,
+            );
+            return [path, reference];
+          }
+        }),
+      );
+    }
+
+    for (const key of REFERENCE_PROPERTIES) {
+      if (!Array.isArray(loaded[key])) {
+        continue;
+      }
+
+      try {
+        loaded[key] = resolveReference(loaded[key], registry);
+      } catch (error) {
+        report(
+          `${key}: ${error instanceof Error ? error.message : String(error)}`,
+        );
+      }
+    }
+
+    for (const [label, subRule, set] of subRules(loaded)) {
+      const subDiagnostics: StructureDiagnostic[] = [];
+      set(loadRules([subRule], registry, subDiagnostics)[0]);
+
+      for (const diagnostic of subDiagnostics) {
+        report(`${label}: ${diagnostic.message}`);
+      }
+    }
+
+    if (Array.isArray(loaded.rules)) {
+      const groupDiagnostics: StructureDiagnostic[] = [];
+      loaded.rules = loadRules(loaded.rules, registry, groupDiagnostics);
+
+      for (const diagnostic of groupDiagnostics) {
+        report(`group rule ${diagnostic.index}: ${diagnostic.message}`);
+      }
+    }
+
+    for (const key of NESTED_PROPERTIES) {
+      if (!Array.isArray(loaded[key])) {
+        continue;
+      }
+
+      const nestedDiagnostics: StructureDiagnostic[] = [];
+      loaded[key] = loadRules(loaded[key], registry, nestedDiagnostics);
+
+      for (const diagnostic of nestedDiagnostics) {
+        report(`nested rule ${diagnostic.index}: ${diagnostic.message}`);
+      }
+    }
+
+    return loaded as Rule;
+  });
+}
+
+function serializeRules(
+  rules: (SerializedRule | Rule | AsyncRule)[],
+  issues: string[],
+): SerializedStructure {
+  return rules.map((rule, index) => {
+    if (Array.isArray(rule)) {
+      return [rule[0], rule[1]];
+    }
+
+    const serialized: Record<string, any> = { ...rule };
+    const report = (name: string) =>
+      issues.push(`rule ${index} (${name} is not a registered function)`);
+
+    for (const key of FUNCTION_PROPERTIES) {
+      const value = serialized[key];
+      if (value === undefined) {
+        continue;
+      }
+
+      if (!PIPELINE_PROPERTIES.has(key) || !isPipeline(value)) {
+        serialized[key] = serializeFunction(value, () => report(key));
+        continue;
+      }
+
+      serialized[key] = value.map((step, stepIndex) => {
+        if (typeof step !== "object" || step === null || Array.isArray(step)) {
+          return serializeFunction(step, () =>
+            report(`${key} step ${stepIndex}`),
+          );
+        }
+
+        const serializedStep = { ...step };
+        for (const property of ["transform", "failOn"]) {
+          if (serializedStep[property] !== undefined) {
+            serializedStep[property] = serializeFunction(
+              serializedStep[property],
+              () => report(`${key} step ${stepIndex} ${property}`),
+            );
+          }
+        }
+
+        return serializedStep;
+      });
+    }
+
+    // an array of references would be read as an array of targets
+    if (typeof serialized.target === "function") {
+      issues.push(`rule ${index} (target functions cannot be serialized)`);
+    }
+
+    if (isPlainObject(serialized.target)) {
+      serialized.target = Object.fromEntries(
+        Object.entries(serialized.target).map(([path, transform]) => [
+          path,
+          serializeFunction(transform, () =>
+            report(`transform of target '${path}'`),
+          ),
+        ]),
+      );
+    }
+
+    for (const key of REFERENCE_PROPERTIES) {
+      if (serialized[key] !== undefined) {
+        serialized[key] = serializeFunction(serialized[key], () => report(key));
+      }
+    }
+
+    for (const [label, subRule, set] of subRules(serialized)) {
+      const subIssues: string[] = [];
+      set(serializeRules([subRule], subIssues)[0]);
+
+      if (subIssues.length > 0) {
+        issues.push(`rule ${index} (${label} ${subIssues.join(", ")})`);
+      }
+    }
+
+    if (Array.isArray(serialized.rules)) {
+      const groupIssues: string[] = [];
+      serialized.rules = serializeRules(serialized.rules, groupIssues);
+
+      if (groupIssues.length > 0) {
+        issues.push(`rule ${index} (group ${groupIssues.join(", ")})`);
+      }
+    }
+
+    for (const key of NESTED_PROPERTIES) {
+      const nested = serialized[key];
+      if (nested === undefined) {
+        continue;
+      }
+
+      const nestedIssues: string[] = [];
+      serialized[key] = serializeRules(
+        Array.isArray(nested) ? nested : nested.getStructure(),
+        nestedIssues,
+      );
+
+      if (nestedIssues.length > 0) {
+        issues.push(`rule ${index} (nested ${nestedIssues.join(", ")})`);
+      }
+    }
+
+    return serialized as SerializedRule;
+  });
+}
+
+// sub-rules of conditional rules, with a setter replacing them in the (copied) rule
+function subRules(
+  rule: Record<string, any>,
+): [string, any, (subRule: any) => void][] {
+  const found: [string, any, (subRule: any) => void][] = [];
+
+  if (isPlainObject(rule.cases)) {
+    const cases = { ...rule.cases };
+    rule.cases = cases;
+
+    for (const [key, subRule] of Object.entries(cases)) {
+      found.push([`case '${key}'`, subRule, (loaded) => (cases[key] = loaded)]);
+    }
+  }
+
+  for (const key of ["default", "otherwise"]) {
+    if (rule[key] !== undefined) {
+      found.push([key, rule[key], (loaded) => (rule[key] = loaded)]);
+    }
+  }
+
+  return found;
+}
+
+// target maps and switch cases
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// arrays starting with a string are [name, ...args] references
+function isPipeline(value: unknown): value is any[] {
+  return Array.isArray(value) && typeof value[0] !== "string";
+}
+
+function loadPipeline(steps: any[], registry: TransformRegistry | null): any[] {
+  const resolve = (value: any) =>
+    typeof value === "function" ? value : resolveReference(value, registry);
+
+  return steps.map((step, index) => {
+    try {
+      if (typeof step !== "object" || step === null || Array.isArray(step)) {
+        return resolve(step);
+      }
+
+      const loaded = { ...step, transform: resolve(step.transform) };
+      if (step.failOn !== undefined) {
+        loaded.failOn = resolve(step.failOn);
+      }
+
+      return loaded;
+    } catch (error) {
+      throw new Error(
+        `step ${index}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  });
+}
+
+// without a registry, names and [name, ...args] fail and other values are left to validateStructure
+function resolveReference(
+  reference: any,
+  registry: TransformRegistry | null,
+): any {
+  if (registry) {
+    return registry.resolve(reference);
+  }
+
+  if (typeof reference === "string" || Array.isArray(reference)) {
+    const name = typeof reference === "string" ? reference : reference[0];
+    throw new Error(
+      `named function ${JSON.stringify(name)} cannot be resolved without a registry`,
+    );
+  }
+
+  return reference;
+}
+
+function serializeFunction(value: unknown, onError: () => void): unknown {
+  if (typeof value !== "function") {
+    return value;
+  }
+
+  const reference = referenceOf(value);
+  if (!reference) {
+    onError();
+    return value;
+  }
+
+  return [...reference];
+}
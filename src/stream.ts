@@ -0,0 +1,80 @@
+import { Transform } from "stream";
+import type { AsyncMapper } from "./async-mapper.js";
+import type { StreamOptions } from "./types/stream.js";
+import { resolveStreamOptions } from "./mapper/record-stream.js";
+
+// object mode Transform stream mapping each written source with the given mapper
+export function createMapStream<TSource, TTarget>(
+  mapper: AsyncMapper<TSource, TTarget>,
+  options?: Partial<StreamOptions>,
+): Transform {
+  const { recordsLimit, ordered } = resolveStreamOptions(options);
+  const queue: { done: boolean; target?: TTarget }[] = [];
+  let inFlight = 0;
+  let waiting: (() => void) | null = null;
+  let flushing: (() => void) | null = null;
+
+  // ordered targets count until they are pushed, behind a slower record too
+  const pending = (): number => (ordered ? queue.length : inFlight);
+
+  const release = (): void => {
+    if (waiting && pending() < recordsLimit) {
+      const callback = waiting;
+      waiting = null;
+      callback();
+    }
+
+    if (flushing && inFlight === 0) {
+      flushing();
+    }
+  };
+
+  const stream = new Transform({
+    objectMode: true,
+    transform(source: TSource, _encoding, callback) {
+      const entry: { done: boolean; target?: TTarget } = { done: false };
+      inFlight++;
+
+      if (ordered) {
+        queue.push(entry);
+      }
+
+      mapper.map(source).then(
+        (target) => {
+          inFlight--;
+
+          if (ordered) {
+            entry.done = true;
+            entry.target = target;
+
+            while (queue[0]?.done) {
+              stream.push(queue.shift()!.target);
+            }
+          } else {
+            stream.push(target);
+          }
+
+          release();
+        },
+        (error) => {
+          stream.destroy(error);
+        },
+      );
+
+      if (pending() < recordsLimit) {
+        callback();
+      } else {
+        waiting = callback;
+      }
+    },
+    flush(callback) {
+      if (inFlight === 0) {
+        callback();
+      } else {
+        flushing = callback;
+      }
+    },
+  });
+
+  return stream;
+}
@@ -0,0 +1,784 @@
+import { JSONPath } from "jsonpath-plus";
+import type { AsyncRule, AsyncStructure, Structure } from "./types/mapper.js";
+import type {
+  DiagnosticCode,
+  DiagnosticSeverity,
+  StructureDiagnostic,
+} from "./types/structure.js";
+import {
+  escapeOutPathSegment,
+  parseOutPath,
+  splitWildcards,
+  toOutPath,
+  type PathSegment,
+} from "./mapper/paths.js";
+import { parseTargetTemplate } from "./mapper/targets.js";
+import { joinJsonPath } from "./mapper/groups.js";
+import { parseCondition } from "./mapper/conditions.js";
+import { splitArrayMarker } from "./mapper/appends.js";
+import { WRITE_STRATEGIES } from "./mapper/write-strategies.js";
+import { UNSAFE_KEYS } from "./mapper/unsafe-keys.js";
+
+type Report = (
+  severity: DiagnosticSeverity,
+  code: DiagnosticCode,
+  message: string,
+) => void;
+
+const RULE_PROPERTIES = new Set([
+  "source",
+  "sources",
+  "target",
+  "constant",
+  "defaultValue",
+  "required",
+  "failMessage",
+  "failCode",
+  "write",
+  "mapper",
+  "each",
+  "transform",
+  "reverseTransform",
+  "filter",
+  "failOn",
+  "when",
+  "otherwise",
+  "switch",
+  "cases",
+  "default",
+]);
+
+const GROUP_PROPERTIES = new Set([
+  "sourcePrefix",
+  "targetPrefix",
+  "rules",
+  "filter",
+  "options",
+]);
+
+const FUNCTION_PROPERTIES = [
+  "transform",
+  "reverseTransform",
+  "filter",
+  "failOn",
+] as const;
+
+// properties accepting an array of steps
+const PIPELINE_PROPERTIES = new Set(["transform", "reverseTransform"]);
+
+const ARRAY_MARKER = "[]"; // segment of "[]", "[+]", "[^]" and "[~]" in normalized targets
+
+export function validateStructure(
+  structure: Structure | AsyncStructure,
+): StructureDiagnostic[] {
+  const diagnostics: StructureDiagnostic[] = [];
+
+  if (!Array.isArray(structure)) {
+    return [
+      {
+        index: -1,
+        rule: structure,
+        severity: "error",
+        code: "invalid-rule",
+        message: "structure must be an array of rules",
+      },
+    ];
+  }
+
+  // normalized target paths written by the rules, to find duplicates and conflicts
+  const targets: { index: number; path: string[] }[] = [];
+
+  structure.forEach((rule: AsyncRule, index) => {
+    const report: Report = (severity, code, message) => {
+      diagnostics.push({ index, rule, severity, code, message });
+    };
+
+    for (const target of checkRule(rule, report) ?? []) {
+      checkTargetConflicts(target, targets, report);
+      targets.push({ index, path: target });
+    }
+  });
+
+  return diagnostics;
+}
+
+function checkTargetConflicts(
+  target: string[],
+  targets: { index: number; path: string[] }[],
+  report: Report,
+): void {
+  for (const other of targets) {
+    // appended elements are new elements, they never overwrite another target
+    if (target.includes(ARRAY_MARKER) || other.path.includes(ARRAY_MARKER)) {
+      continue;
+    }
+
+    const shared = Math.min(other.path.length, target.length);
+    if (!target.slice(0, shared).every((s, i) => s === other.path[i])) {
+      continue;
+    }
+
+    if (other.path.length === target.length) {
+      report(
+        "warning",
+        "duplicate-target",
+        `target '${toOutPath(target)}' is also written by rule ${other.index}`,
+      );
+    } else {
+      report(
+        "warning",
+        "target-conflict",
+        `target '${toOutPath(target)}' conflicts with target '${toOutPath(other.path)}' of rule ${other.index}`,
+      );
+    }
+  }
+}
+
+// returns the normalized target paths of a valid rule
+function checkRule(rule: unknown, report: Report): string[][] | null {
+  if (Array.isArray(rule)) {
+    if (
+      rule.length !== 2 ||
+      typeof rule[0] !== "string" ||
+      typeof rule[1] !== "string"
+    ) {
+      report(
+        "error",
+        "invalid-rule",
+        "array rules must be a [source, target] pair of strings",
+      );
+      return null;
+    }
+
+    checkSource(rule[0], report);
+    const target = checkTarget(rule[1], report);
+    return target && [target];
+  }
+
+  if (typeof rule !== "object" || rule === null) {
+    report("error", "invalid-rule", "rule must be an array or an object");
+    return null;
+  }
+
+  const ruleObj = rule as Record<string, any>;
+  let valid = true;
+
+  if (ruleObj.rules !== undefined) {
+    return checkGroup(ruleObj, report);
+  }
+
+  for (const key of Object.keys(ruleObj)) {
+    if (!RULE_PROPERTIES.has(key)) {
+      report("warning", "unknown-property", `unknown rule property '${key}'`);
+    }
+  }
+
+  for (const key of FUNCTION_PROPERTIES) {
+    const value = ruleObj[key];
+    if (value === undefined || typeof value === "function") {
+      continue;
+    }
+
+    if (PIPELINE_PROPERTIES.has(key) && Array.isArray(value)) {
+      const message = checkPipeline(value);
+      if (message) {
+        report("error", "invalid-rule", `'${key}' ${message}`);
+        valid = false;
+      }
+      continue;
+    }
+
+    report("error", "invalid-rule", `'${key}' must be a function`);
+    valid = false;
+  }
+
+  if (
+    ruleObj.write !== undefined &&
+    typeof ruleObj.write !== "function" &&
+    !WRITE_STRATEGIES.has(ruleObj.write)
+  ) {
+    report(
+      "error",
+      "invalid-rule",
+      "'write' must be 'overwrite', 'deepMerge', 'concat', 'setIfAbsent' or a function",
+    );
+    valid = false;
+  }
+
+  if (!checkConditions(ruleObj, report)) {
+    valid = false;
+  }
+
+  const hasConstant = ruleObj.constant !== undefined;
+  const hasSource = ruleObj.source !== undefined;
+  const hasSources = ruleObj.sources !== undefined;
+
+  if (ruleObj.switch !== undefined) {
+    if (hasConstant || hasSource || hasSources) {
+      report(
+        "error",
+        "invalid-rule",
+        "switch rules select a case and cannot define 'source', 'sources' or 'constant'",
+      );
+      valid = false;
+    }
+  } else if (hasConstant && hasSource) {
+    report(
+      "error",
+      "invalid-rule",
+      "rule defines both 'source' and 'constant'",
+    );
+    valid = false;
+  } else if (hasSources && (hasConstant || hasSource)) {
+    report(
+      "error",
+      "invalid-rule",
+      `rule defines both 'sources' and '${hasSource ? "source" : "constant"}'`,
+    );
+    valid = false;
+  } else if (!hasConstant && !hasSource && !hasSources) {
+    report(
+      "error",
+      "invalid-rule",
+      "rule must have either 'source' or 'constant' defined",
+    );
+    valid = false;
+  } else if (hasSource) {
+    if (typeof ruleObj.source !== "string" || ruleObj.source === "") {
+      report("error", "invalid-source", "'source' must be a non-empty string");
+      valid = false;
+    } else {
+      checkSource(ruleObj.source, report);
+    }
+  } else if (hasSources && !checkSources(ruleObj.sources, report)) {
+    valid = false;
+  }
+
+  if (ruleObj.mapper !== undefined && ruleObj.each !== undefined) {
+    report("error", "invalid-rule", "rule defines both 'mapper' and 'each'");
+    valid = false;
+  }
+
+  for (const key of ["mapper", "each"]) {
+    const nested = ruleObj[key];
+    if (nested === undefined) {
+      continue;
+    }
+
+    const nestedStructure = Array.isArray(nested)
+      ? nested
+      : typeof nested?.getStructure === "function"
+        ? nested.getStructure()
+        : null;
+
+    if (!nestedStructure) {
+      report(
+        "error",
+        "invalid-rule",
+        `'${key}' must be a mapper or a structure`,
+      );
+      valid = false;
+      continue;
+    }
+
+    for (const diagnostic of validateStructure(nestedStructure)) {
+      report(
+        diagnostic.severity,
+        diagnostic.code,
+        `nested rule ${diagnostic.index}: ${diagnostic.message}`,
+      );
+    }
+  }
+
+  const targets = checkTargets(ruleObj.target, report);
+  return valid ? targets : null;
+}
+
+// returns the normalized target paths of the valid rules of the group
+function checkGroup(
+  group: Record<string, any>,
+  report: Report,
+): string[][] | null {
+  let valid = true;
+  const error = (code: DiagnosticCode, message: string) => {
+    report("error", code, message);
+    valid = false;
+  };
+
+  for (const key of Object.keys(group)) {
+    if (!GROUP_PROPERTIES.has(key)) {
+      report("warning", "unknown-property", `unknown group property '${key}'`);
+    }
+  }
+
+  if (typeof group.sourcePrefix === "string" && group.sourcePrefix !== "") {
+    const message = checkJsonPath(group.sourcePrefix);
+    if (message) {
+      error(
+        "invalid-source",
+        `sourcePrefix '${group.sourcePrefix}' ${message}`,
+      );
+    }
+  } else if (group.sourcePrefix !== undefined) {
+    error("invalid-source", "'sourcePrefix' must be a non-empty string");
+  }
+
+  let prefix: string[] = [];
+  if (typeof group.targetPrefix === "string") {
+    const path = group.targetPrefix && checkTarget(group.targetPrefix, report);
+    if (path === null) {
+      valid = false;
+    } else if (path) {
+      prefix = path;
+    }
+  } else if (group.targetPrefix !== undefined) {
+    error("invalid-target", "'targetPrefix' must be a string");
+  }
+
+  if (group.filter !== undefined && typeof group.filter !== "function") {
+    error("invalid-rule", "'filter' must be a function");
+  }
+
+  if (group.options !== undefined && !isObject(group.options)) {
+    error("invalid-rule", "'options' must be an object of mapper options");
+  }
+
+  if (!Array.isArray(group.rules)) {
+    error("invalid-rule", "'rules' must be an array of rules");
+    return null;
+  }
+
+  const targets: string[][] = [];
+
+  group.rules.forEach((rule: unknown, index: number) => {
+    const checked = checkRule(rule, (severity, code, message) =>
+      report(severity, code, `group rule ${index}: ${message}`),
+    );
+
+    for (const target of checked ?? []) {
+      targets.push([...prefix, ...target]);
+    }
+  });
+
+  return valid ? targets : null;
+}
+
+function checkConditions(
+  ruleObj: Record<string, any>,
+  report: Report,
+): boolean {
+  let valid = true;
+  const error = (code: DiagnosticCode, message: string) => {
+    report("error", code, message);
+    valid = false;
+  };
+
+  if (typeof ruleObj.when === "string") {
+    const message = checkCondition(ruleObj.when);
+    if (message) {
+      error("invalid-source", message);
+    }
+  } else if (ruleObj.when !== undefined && typeof ruleObj.when !== "function") {
+    error(
+      "invalid-rule",
+      "'when' must be a function or a condition expression",
+    );
+  }
+
+  if (typeof ruleObj.switch === "string") {
+    const message = checkJsonPath(ruleObj.switch);
+    if (message) {
+      error("invalid-source", `switch '${ruleObj.switch}' ${message}`);
+    }
+  } else if (
+    ruleObj.switch !== undefined &&
+    typeof ruleObj.switch !== "function"
+  ) {
+    error("invalid-rule", "'switch' must be a function or a JSONPath");
+  }
+
+  if (ruleObj.otherwise !== undefined && ruleObj.when === undefined) {
+    error("invalid-rule", "'otherwise' requires 'when'");
+  }
+
+  for (const key of ["cases", "default"]) {
+    if (ruleObj[key] !== undefined && ruleObj.switch === undefined) {
+      error("invalid-rule", `'${key}' requires 'switch'`);
+    }
+  }
+
+  if (ruleObj.switch !== undefined && !isObject(ruleObj.cases)) {
+    error("invalid-rule", "'cases' must be an object of rules");
+  }
+
+  const subRules: [string, unknown][] = [
+    ...Object.entries(isObject(ruleObj.cases) ? ruleObj.cases : {}).map(
+      ([key, subRule]): [string, unknown] => [`case '${key}'`, subRule],
+    ),
+    ["default", ruleObj.default],
+    ["otherwise", ruleObj.otherwise],
+  ];
+
+  for (const [label, subRule] of subRules) {
+    if (subRule === undefined) {
+      continue;
+    }
+
+    // sub-rules write to the target of their parent by default
+    const rule =
+      isObject(subRule) && subRule.target === undefined
+        ? { ...subRule, target: ruleObj.target }
+        : subRule;
+
+    checkRule(rule, (severity, code, message) => {
+      report(severity, code, `${label}: ${message}`);
+      valid &&= severity !== "error";
+    });
+  }
+
+  return valid;
+}
+
+function checkCondition(expression: string): string | null {
+  let condition;
+  try {
+    condition = parseCondition(expression);
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+
+  const message = checkJsonPath(condition.path);
+  return message && `condition '${expression}' ${message}`;
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function checkTargets(target: unknown, report: Report): string[][] | null {
+  // paths computed by functions are only known when mapping
+  if (typeof target === "function") {
+    return [];
+  }
+
+  if (typeof target === "string") {
+    const path = checkTarget(target, report);
+    return path && [path];
+  }
+
+  const isMap =
+    typeof target === "object" && target !== null && !Array.isArray(target);
+  const paths = Array.isArray(target)
+    ? target
+    : isMap
+      ? Object.keys(target)
+      : [];
+
+  if (paths.length === 0 || paths.some((path) => typeof path !== "string")) {
+    report(
+      "error",
+      "invalid-target",
+      "'target' must be a string, a non-empty array of strings or an object of paths to transforms",
+    );
+    return null;
+  }
+
+  let valid = true;
+
+  if (isMap) {
+    for (const [path, transform] of Object.entries(target)) {
+      if (transform !== null && typeof transform !== "function") {
+        report(
+          "error",
+          "invalid-target",
+          `transform of target '${path}' must be a function or null`,
+        );
+        valid = false;
+      }
+    }
+  }
+
+  const checked = paths.map((path) => checkTarget(path, report));
+  return valid && checked.every((path) => path !== null)
+    ? (checked as string[][])
+    : null;
+}
+
+function checkPipeline(steps: unknown[]): string | null {
+  for (const [index, step] of steps.entries()) {
+    if (typeof step === "function") {
+      continue;
+    }
+
+    const stepObj = step as Record<string, unknown> | null;
+    if (
+      typeof stepObj !== "object" ||
+      stepObj === null ||
+      typeof stepObj.transform !== "function" ||
+      (stepObj.failOn !== undefined && typeof stepObj.failOn !== "function")
+    ) {
+      return `step ${index} must be a function or a { transform, failOn } object of functions`;
+    }
+  }
+
+  return null;
+}
+
+function checkSources(sources: unknown, report: Report): boolean {
+  const definitions =
+    typeof sources === "object" && sources !== null
+      ? Object.values(sources)
+      : [];
+
+  if (definitions.length === 0) {
+    report(
+      "error",
+      "invalid-source",
+      "'sources' must be a non-empty array or object of JSONPaths",
+    );
+    return false;
+  }
+
+  let valid = true;
+
+  const unsafe = Object.keys(sources as object).find((key) =>
+    UNSAFE_KEYS.has(key),
+  );
+  if (unsafe !== undefined) {
+    report(
+      "error",
+      "invalid-source",
+      `'sources' has the unsafe key '${unsafe}'`,
+    );
+    valid = false;
+  }
+
+  for (const definition of definitions) {
+    const path =
+      typeof definition === "object" && definition !== null
+        ? definition.source
+        : definition;
+
+    if (typeof path !== "string" || path === "") {
+      report(
+        "error",
+        "invalid-source",
+        "'sources' entries must be non-empty strings or { source, defaultValue } objects",
+      );
+      valid = false;
+    } else {
+      checkSource(path, report);
+    }
+  }
+
+  return valid;
+}
+
+function checkSource(source: string, report: Report): void {
+  const error = checkJsonPath(source);
+  if (error) {
+    report("error", "invalid-source", `source '${source}' ${error}`);
+  }
+}
+
+function checkTarget(target: string, report: Report): string[] | null {
+  if (target === "") {
+    report("error", "invalid-target", "'target' cannot be empty");
+    return null;
+  }
+
+  let segments;
+  try {
+    segments = markerSegments(templatePath(target));
+  } catch (error) {
+    report(
+      "error",
+      "invalid-target",
+      error instanceof Error ? error.message : String(error),
+    );
+    return null;
+  }
+
+  if (segments.some((segment) => segment === "")) {
+    report(
+      "error",
+      "invalid-target",
+      `target '${target}' has an empty property name`,
+    );
+    return null;
+  }
+
+  const unsafe = segments.find((segment) => UNSAFE_KEYS.has(String(segment)));
+  if (unsafe !== undefined) {
+    report(
+      "error",
+      "invalid-target",
+      `target '${target}' has the unsafe key '${unsafe}'`,
+    );
+    return null;
+  }
+
+  return segments.map(String);
+}
+
+// placeholders are checked and kept as single segments, to find conflicts between templates
+function templatePath(target: string): string {
+  const parts = parseTargetTemplate(target);
+  if (!parts) {
+    return target;
+  }
+
+  return parts
+    .map((part) => {
+      if (typeof part === "string") {
+        return part;
+      }
+
+      const { placeholder } = part;
+      const message =
+        placeholder &&
+        checkJsonPath(
+          placeholder.startsWith("$")
+            ? placeholder
+            : joinJsonPath("$", placeholder),
+        );
+
+      if (message) {
+        throw new Error(`placeholder '{${placeholder}}' ${message}`);
+      }
+
+      return escapeOutPathSegment(`{${placeholder}}`);
+    })
+    .join("");
+}
+
+// "[*]" wildcards are kept as "*" segments
+// array markers become a single segment, appended elements do not conflict with other targets
+function markerSegments(path: string): PathSegment[] {
+  const marked = splitArrayMarker(path);
+  if (!marked) {
+    return wildcardSegments(path);
+  }
+
+  const { head, tail } = marked;
+  if (tail !== "" && !tail.startsWith(".") && !tail.startsWith("[")) {
+    throw new Error(
+      `Invalid character after an array marker of path '${path}'`,
+    );
+  }
+
+  return [
+    ...wildcardSegments(head),
+    ARRAY_MARKER,
+    ...(tail === ""
+      ? []
+      : markerSegments(tail.startsWith(".") ? tail.slice(1) : tail)),
+  ];
+}
+
+function wildcardSegments(path: string): PathSegment[] {
+  const pieces = splitWildcards(path);
+  if (!pieces) {
+    return parseOutPath(path);
+  }
+
+  return pieces.flatMap((piece, index) => {
+    if (index === 0) {
+      return parseOutPath(piece);
+    }
+
+    if (piece !== "" && !piece.startsWith(".") && !piece.startsWith("[")) {
+      throw new Error(`Invalid character after a wildcard of path '${path}'`);
+    }
+
+    return [
+      "*",
+      ...(piece === ""
+        ? []
+        : parseOutPath(piece.startsWith(".") ? piece.slice(1) : piece)),
+    ];
+  });
+}
+
+// jsonpath-plus parses paths lazily and leniently, malformed brackets and scripts are checked here
+function checkJsonPath(path: string): string | null {
+  let depth = 0; // parentheses depth inside brackets
+  let quote: string | null = null;
+  let bracketStart = -1;
+
+  for (let index = 0; index < path.length; index++) {
+    const character = path[index]!;
+
+    if (bracketStart === -1) {
+      if (character === "[") {
+        bracketStart = index;
+      } else if (character === "]") {
+        return `has an unexpected ']' at character ${index}`;
+      } else if (character === "." && path.startsWith("...", index)) {
+        return `has an unexpected '...' at character ${index}`;
+      }
+      continue;
+    }
+
+    if (quote) {
+      if (character === "\\") {
+        index++;
+      } else if (character === quote) {
+        quote = null;
+      }
+    } else if (character === "'" || character === '"') {
+      quote = character;
+    } else if (character === "(") {
+      depth++;
+    } else if (character === ")") {
+      depth--;
+    } else if (character === "]" && depth === 0) {
+      const content = path.slice(bracketStart + 1, index).trim();
+
+      if (content === "") {
+        return `has empty brackets at character ${bracketStart}`;
+      }
+
+      const error = checkScript(content);
+      if (error) {
+        return `has an invalid expression '${content}': ${error}`;
+      }
+
+      bracketStart = -1;
+    }
+  }
+
+  if (quote) {
+    return "has an unclosed quote";
+  }
+
+  if (bracketStart !== -1) {
+    return `has an unclosed '[' at character ${bracketStart}`;
+  }
+
+  if (path.endsWith(".") && !path.endsWith("..")) {
+    return "ends with '.'";
+  }
+
+  return null;
+}
+
+// filter and script expressions are parsed when they first run, run them on an empty element
+function checkScript(content: string): string | null {
+  if (!content.startsWith("(") && !content.startsWith("?(")) {
+    return null;
+  }
+
+  try {
+    JSONPath({ path: `$[${content}]`, json: [{}], wrap: true });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+
+    // errors raised while running the expression are prefixed, parse errors are not
+    if (!message.startsWith("jsonPath: ")) {
+      return message;
+    }
+  }
+
+  return null;
+}
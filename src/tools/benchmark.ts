@@ -157,6 +157,18 @@ async function runBenchmarks() {
     Partial<TargetData>
   >(asyncTransformStructure, { parallelRun: true });
   const automapper = new Automapper<SourceData, SourceData>();
+  const compiledSimpleMapper = new Mapper<SourceData, Partial<TargetData>>(
+    simpleStructure,
+    { compiled: true },
+  );
+  const compiledComplexMapper = new Mapper<SourceData, TargetData>(
+    complexStructure,
+    { compiled: true },
+  );
+  const compiledTransformMapper = new Mapper<SourceData, Partial<TargetData>>(
+    transformStructure,
+    { compiled: true },
+  );
 
   // Single item benchmarks
   bench
@@ -178,6 +190,15 @@ async function runBenchmarks() {
     .add("Async transform parallel (single item)", async () => {
       await asyncTransformParallelMapper.map(singleItem!);
     })
+    .add("Compiled simple mapping (single item)", () => {
+      compiledSimpleMapper.map(singleItem!);
+    })
+    .add("Compiled complex mapping (single item)", () => {
+      compiledComplexMapper.map(singleItem!);
+    })
+    .add("Compiled transform mapping (single item)", () => {
+      compiledTransformMapper.map(singleItem!);
+    })
     .add("Automapping (single item)", () => {
       automapper.map(singleItem!);
     })
@@ -220,6 +241,12 @@ async function runBenchmarks() {
     })
     .add("Complex mapping (1000 items)", () => {
       largeDataset.map((item) => complexMapper.map(item));
+    })
+    .add("Compiled simple mapping (1000 items)", () => {
+      largeDataset.map((item) => compiledSimpleMapper.map(item));
+    })
+    .add("Compiled complex mapping (1000 items)", () => {
+      largeDataset.map((item) => compiledComplexMapper.map(item));
     });
 
   // Memory efficiency test
@@ -283,6 +310,21 @@ async function runBenchmarks() {
       `• Parallel speedup: ${parallelSpeedup.toFixed(2)}x faster than sequential`,
     );
   }
+
+  // Compare compiled vs interpreted mapping
+  const compiledTask = bench.tasks.find(
+    (task) => task.name === "Compiled complex mapping (1000 items)",
+  );
+  const interpretedTask = bench.tasks.find(
+    (task) => task.name === "Complex mapping (1000 items)",
+  );
+
+  if (compiledTask?.result?.hz && interpretedTask?.result?.hz) {
+    const compiledSpeedup = compiledTask.result.hz / interpretedTask.result.hz;
+    console.log(
+      `• Compiled speedup: ${compiledSpeedup.toFixed(2)}x faster than interpreted`,
+    );
+  }
 }
 
 // Export for external usage
@@ -0,0 +1,296 @@
+// Factories of functions for RuleObject.transform. Every transform returns null and undefined
+// unchanged, and throws a TypeError on invalid input unless a fallback value is given.
+
+export type TransformOptions = {
+  fallback?: any; // returned instead of throwing on invalid input
+};
+
+type Transform<T> = (data: any) => T;
+
+const TRUE_STRINGS = new Set(["true", "1", "yes", "y", "on"]);
+const FALSE_STRINGS = new Set(["false", "0", "no", "n", "off"]);
+
+export function toNumber(options?: TransformOptions): Transform<any> {
+  return (data) =>
+    nullish(data, () => {
+      let value = NaN;
+
+      if (typeof data === "number") {
+        value = data;
+      } else if (typeof data === "boolean") {
+        value = data ? 1 : 0;
+      } else if (typeof data === "string" && data.trim() !== "") {
+        value = Number(data.trim());
+      }
+
+      return Number.isFinite(value)
+        ? value
+        : invalid("toNumber", data, "a number", options);
+    });
+}
+
+export function toBoolean(options?: TransformOptions): Transform<any> {
+  return (data) =>
+    nullish(data, () => {
+      if (typeof data === "boolean") {
+        return data;
+      }
+
+      if (data === 0 || data === 1) {
+        return data === 1;
+      }
+
+      if (typeof data === "string") {
+        const value = data.trim().toLowerCase();
+
+        if (TRUE_STRINGS.has(value)) {
+          return true;
+        }
+        if (FALSE_STRINGS.has(value)) {
+          return false;
+        }
+      }
+
+      return invalid("toBoolean", data, "a boolean", options);
+    });
+}
+
+export function toString(options?: TransformOptions): Transform<any> {
+  return (data) =>
+    nullish(data, () => {
+      if (data instanceof Date) {
+        return isValidDate(data)
+          ? data.toISOString()
+          : invalid("toString", data, "a valid date", options);
+      }
+
+      return ["string", "number", "boolean", "bigint"].includes(typeof data)
+        ? String(data)
+        : invalid("toString", data, "a primitive value", options);
+    });
+}
+
+export function trim(options?: TransformOptions): Transform<any> {
+  return stringTransform("trim", (value) => value.trim(), options);
+}
+
+export function lowercase(options?: TransformOptions): Transform<any> {
+  return stringTransform("lowercase", (value) => value.toLowerCase(), options);
+}
+
+export function uppercase(options?: TransformOptions): Transform<any> {
+  return stringTransform("uppercase", (value) => value.toUpperCase(), options);
+}
+
+export function split(
+  separator: string | RegExp = ",",
+  options?: TransformOptions,
+): Transform<any> {
+  return stringTransform("split", (value) => value.split(separator), options);
+}
+
+export function join(
+  separator = ",",
+  options?: TransformOptions,
+): Transform<any> {
+  return arrayTransform("join", (value) => value.join(separator), options);
+}
+
+// ISO 8601 string of a date, a timestamp in milliseconds or a date string
+export function toISODate(options?: TransformOptions): Transform<any> {
+  return (data) =>
+    nullish(data, () => {
+      const date = toDate(data);
+      return date
+        ? date.toISOString()
+        : invalid("toISODate", data, "a date", options);
+    });
+}
+
+// Date of a date, a timestamp in milliseconds or a date string
+export function parseDate(options?: TransformOptions): Transform<any> {
+  return (data) =>
+    nullish(data, () => {
+      const date = toDate(data);
+      return date ?? invalid("parseDate", data, "a date", options);
+    });
+}
+
+export function round(digits = 0, options?: TransformOptions): Transform<any> {
+  return numberTransform(
+    "round",
+    // shifting the decimal representation avoids floating point errors such as 1.005 -> 1
+    (value) => shift(Math.round(shift(value, digits)), -digits),
+    options,
+  );
+}
+
+export function clamp(
+  min: number,
+  max: number,
+  options?: TransformOptions,
+): Transform<any> {
+  return numberTransform(
+    "clamp",
+    (value) => Math.min(Math.max(value, min), max),
+    options,
+  );
+}
+
+export function pick(
+  keys: string[],
+  options?: TransformOptions,
+): Transform<any> {
+  return objectTransform(
+    "pick",
+    (value) =>
+      Object.fromEntries(
+        keys
+          .filter((key) => Object.prototype.hasOwnProperty.call(value, key))
+          .map((key) => [key, value[key]]),
+      ),
+    options,
+  );
+}
+
+export function omit(
+  keys: string[],
+  options?: TransformOptions,
+): Transform<any> {
+  return objectTransform(
+    "omit",
+    (value) =>
+      Object.fromEntries(
+        Object.entries(value).filter(([key]) => !keys.includes(key)),
+      ),
+    options,
+  );
+}
+
+// undefined for empty arrays
+export function first(options?: TransformOptions): Transform<any> {
+  return arrayTransform("first", (value) => value[0], options);
+}
+
+// undefined for empty arrays
+export function last(options?: TransformOptions): Transform<any> {
+  return arrayTransform("last", (value) => value[value.length - 1], options);
+}
+
+// objects are compared by reference
+export function unique(options?: TransformOptions): Transform<any> {
+  return arrayTransform("unique", (value) => [...new Set(value)], options);
+}
+
+// removes null and undefined elements only, falsy values such as 0 or "" are kept
+export function compact(options?: TransformOptions): Transform<any> {
+  return arrayTransform(
+    "compact",
+    (value) =>
+      value.filter((element) => element !== null && element !== undefined),
+    options,
+  );
+}
+
+function nullish(data: unknown, transform: () => any): any {
+  return data === null || data === undefined ? data : transform();
+}
+
+function invalid(
+  name: string,
+  data: unknown,
+  expected: string,
+  options: TransformOptions | undefined,
+): any {
+  if (options && "fallback" in options) {
+    return options.fallback;
+  }
+
+  throw new TypeError(`${name}: expected ${expected}, got ${describe(data)}`);
+}
+
+function describe(data: unknown): string {
+  if (Array.isArray(data)) {
+    return "an array";
+  }
+
+  if (typeof data === "string") {
+    return JSON.stringify(data);
+  }
+
+  return typeof data === "object" ? "an object" : String(data);
+}
+
+function stringTransform(
+  name: string,
+  transform: (value: string) => any,
+  options: TransformOptions | undefined,
+): Transform<any> {
+  return (data) =>
+    nullish(data, () =>
+      typeof data === "string"
+        ? transform(data)
+        : invalid(name, data, "a string", options),
+    );
+}
+
+function numberTransform(
+  name: string,
+  transform: (value: number) => number,
+  options: TransformOptions | undefined,
+): Transform<any> {
+  return (data) =>
+    nullish(data, () =>
+      typeof data === "number" && Number.isFinite(data)
+        ? transform(data)
+        : invalid(name, data, "a number", options),
+    );
+}
+
+function arrayTransform(
+  name: string,
+  transform: (value: any[]) => any,
+  options: TransformOptions | undefined,
+): Transform<any> {
+  return (data) =>
+    nullish(data, () =>
+      Array.isArray(data)
+        ? transform(data)
+        : invalid(name, data, "an array", options),
+    );
+}
+
+function objectTransform(
+  name: string,
+  transform: (value: Record<string, any>) => any,
+  options: TransformOptions | undefined,
+): Transform<any> {
+  return (data) =>
+    nullish(data, () =>
+      typeof data === "object" && !Array.isArray(data)
+        ? transform(data)
+        : invalid(name, data, "an object", options),
+    );
+}
+
+function shift(value: number, digits: number): number {
+  const [mantissa, exponent = "0"] = String(value).split("e");
+  return Number(`${mantissa}e${Number(exponent) + digits}`);
+}
+
+function toDate(data: unknown): Date | null {
+  if (data instanceof Date) {
+    return isValidDate(data) ? new Date(data.getTime()) : null;
+  }
+
+  if (typeof data === "number" || typeof data === "string") {
+    const date = new Date(data);
+    return isValidDate(date) ? date : null;
+  }
+
+  return null;
+}
+
+function isValidDate(date: Date): boolean {
+  return !Number.isNaN(date.getTime());
+}
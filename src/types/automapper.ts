@@ -3,6 +3,7 @@ import type { UnknownSource, UnknownTarget } from "./generic.js";
 export type AutomapperOptions = {
   checkType: boolean;
   automapArrayStrategy?: AutomapArrayStrategyFunction | AutomapArrayStrategy;
+  hardened: boolean; // skips the "__proto__", "prototype" and "constructor" keys
 };
 
 export type AutomapArrayStrategyFunction = (
@@ -0,0 +1,19 @@
+import type { UnknownSource, UnknownTarget } from "./generic.js";
+
+export type BatchOptions = {
+  // default 0 (unlimited), only used by AsyncMapper, restricts the number of records mapped at once
+  recordsLimit: number;
+  // default false, collect failing records instead of rejecting the whole batch
+  collectFailures: boolean;
+};
+
+export type BatchFailure<TSource = UnknownSource> = {
+  index: number; // index of the record in the sources
+  source: TSource;
+  error: unknown;
+};
+
+export type BatchResult<TSource = UnknownSource, TTarget = UnknownTarget> = {
+  results: (TTarget | undefined)[]; // in input order, undefined for failed records
+  failures: BatchFailure<TSource>[];
+};
@@ -2,6 +2,10 @@ import {
   AutomapArrayStrategy,
   type AutomapArrayStrategyFunction,
 } from "./automapper.js";
+import type { Mapper } from "../mapper.js";
+import type { AsyncMapper } from "../async-mapper.js";
+import type { JsonSchema } from "./schema.js";
+import type { TransformRegistry } from "../registry.js";
 
 export type MapperOptions = {
   // default true, add $. to JSONPath entries if not present for easier structure configuration
@@ -22,30 +26,164 @@ export type MapperOptions = {
   parallelRun: boolean;
   // default 0 (unlimited), restricts the number of parallel jobs running
   parallelJobsLimit: number;
+  // default false, only available on Mapper, map with a compiled version of the structure
+  compiled: boolean;
+  // default false, keep mapping after a rule fails and throw all the failures at the end
+  collectErrors: boolean;
+  // default false, every rule without a default value requires its source to match
+  strict: boolean;
+  // default null, JSON Schema the mapped target is validated against
+  targetSchema?: JsonSchema | null;
+  // default false, throw when the structure has errors on creation or when it is replaced
+  validateOnCreate: boolean;
+  // default null, resolves the named functions of serialized structures
+  registry?: TransformRegistry | null;
+  // default "extend", how "[*]" targets handle arrays of a different length than the target array
+  wildcardLengthMismatch: WildcardLengthMismatch;
+  // default "overwrite", how rules write over a value already at their target path
+  write: WriteStrategy;
+  // default false, never modify the given target, map() returns a copy sharing its untouched objects
+  immutable: boolean;
+  // default true, reject "__proto__", "prototype" and "constructor" in target paths, skip them when merging
+  hardened: boolean;
 };
 
-export type Rule = RuleArray | RuleObject;
-export type AsyncRule = RuleArray | AsyncRuleObject;
+// extend writes every element, shortest stops at the shorter array, error fails the rule
+export type WildcardLengthMismatch = "extend" | "shortest" | "error";
+
+// returns the value written at the path, existing is undefined when the path has no value
+export type WriteFunction = (existing: any, value: any, path: string) => any;
+
+export type WriteStrategy =
+  | "overwrite" // replaces the existing value
+  | "deepMerge" // merges plain objects recursively, other values are replaced
+  | "concat" // appends the value, or its elements, to the existing array
+  | "setIfAbsent" // writes only when the path has no value
+  | WriteFunction;
+
+export type Rule = RuleArray | RuleObject | RuleGroup;
+export type AsyncRule = RuleArray | AsyncRuleObject | AsyncRuleGroup;
 
 export type RuleArray = [string, string]; // source (jsonpath), target (outpath)
 
+// a source of a multi-source rule, its default value replaces a null or undefined value
+export type SourceDefinition = string | { source: string; defaultValue?: any };
+
+// jsonpaths whose values are passed together as an array or an object
+export type RuleSources = SourceDefinition[] | Record<string, SourceDefinition>;
+
 type BaseRuleObject = {
   source?: string; // jsonpath
-  target: string; // outpath
+  sources?: RuleSources;
   constant?: any;
   defaultValue?: any;
+  required?: boolean; // fails when the source matches nothing, overrides the strict option
+  failMessage?: string; // message of the error thrown by failOn
+  failCode?: string; // code of the error thrown by failOn
+  write?: WriteStrategy; // overrides the write option for the targets of the rule
 };
 
+// a truthy failOn result fails the rule, a string or an object customizes the error
+export type FailOnResult =
+  | boolean
+  | string
+  | { code?: string; message?: string }
+  | null
+  | undefined;
+
+type TransformFunction = (data: any, source: any, target: any) => any;
+type AsyncTransformFunction = (
+  data: any,
+  source: any,
+  target: any,
+) => any | Promise<any>;
+
+// a step of a transform pipeline, its failOn checks the value returned by the step
+export type TransformStep =
+  | TransformFunction
+  | {
+      transform: TransformFunction;
+      failOn?: (data: any, source: any, target: any) => FailOnResult;
+    };
+
+export type AsyncTransformStep =
+  | AsyncTransformFunction
+  | {
+      transform: AsyncTransformFunction;
+      failOn?: (
+        data: any,
+        source: any,
+        target: any,
+      ) => FailOnResult | Promise<FailOnResult>;
+    };
+
+// several outpaths written with the same value, a map gives each path its own transform
+export type RuleTargets = string[] | Record<string, TransformFunction | null>;
+export type AsyncRuleTargets =
+  | string[]
+  | Record<string, AsyncTransformFunction | null>;
+
+// computes the target path from the extracted value, segments of an array are escaped
+export type TargetFunction = (
+  data: any,
+  source: any,
+  target: any,
+) => string | (string | number)[];
+
 export type RuleObject = BaseRuleObject & {
-  transform?: (data: any, source: any, target: any) => any;
+  target: string | RuleTargets | TargetFunction; // outpath, "{placeholders}" are read from the extracted value
+  mapper?: Mapper | Structure; // maps the extracted value as a nested document
+  each?: Mapper | Structure; // maps each element of the extracted array
+  transform?: TransformFunction | TransformStep[]; // an array is a pipeline run in order
+  reverseTransform?: TransformFunction | TransformStep[]; // used by reverse mapping
   filter?: (data: any, source: any, target: any) => boolean;
-  failOn?: (data: any, source: any, target: any) => boolean;
+  failOn?: (data: any, source: any, target: any) => FailOnResult;
+  when?: string | ((source: any, target: any) => boolean); // condition expression or predicate
+  otherwise?: SubRule; // processed instead of the rule when the condition is false
+  switch?: string | ((source: any, target: any) => any); // jsonpath or function selecting a case
+  cases?: Record<string, SubRule>;
+  default?: SubRule; // processed when no case matches the switch value
 };
 
+// rule of a conditional branch, writing to the target of its parent rule unless it has its own
+export type SubRule =
+  | RuleArray
+  | (Omit<RuleObject, "target"> & { target?: RuleObject["target"] });
+
 export type AsyncRuleObject = BaseRuleObject & {
-  transform?: (data: any, source: any, target: any) => any | Promise<any>;
+  target: string | AsyncRuleTargets | TargetFunction;
+  mapper?: Mapper | AsyncMapper | AsyncStructure;
+  each?: Mapper | AsyncMapper | AsyncStructure;
+  transform?: AsyncTransformFunction | AsyncTransformStep[];
+  filter?: (data: any, source: any, target: any) => boolean | Promise<boolean>;
+  failOn?: (
+    data: any,
+    source: any,
+    target: any,
+  ) => FailOnResult | Promise<FailOnResult>;
+  when?: string | ((source: any, target: any) => boolean | Promise<boolean>);
+  otherwise?: AsyncSubRule;
+  switch?: string | ((source: any, target: any) => any);
+  cases?: Record<string, AsyncSubRule>;
+  default?: AsyncSubRule;
+};
+
+export type AsyncSubRule =
+  | RuleArray
+  | (Omit<AsyncRuleObject, "target"> & { target?: AsyncRuleObject["target"] });
+
+// rules whose sources and targets are relative to the prefixes of the group
+export type RuleGroup = {
+  sourcePrefix?: string; // jsonpath
+  targetPrefix?: string; // outpath
+  rules: Rule[];
+  filter?: (data: any, source: any, target: any) => boolean; // skips every rule of the group
+  options?: Partial<MapperOptions>; // overrides the mapper options for the rules of the group
+};
+
+export type AsyncRuleGroup = Omit<RuleGroup, "rules" | "filter"> & {
+  rules: AsyncRule[];
   filter?: (data: any, source: any, target: any) => boolean | Promise<boolean>;
-  failOn?: (data: any, source: any, target: any) => boolean | Promise<boolean>;
 };
 
 export type Structure = Rule[];
@@ -0,0 +1,67 @@
+import type {
+  MapperOptions,
+  RuleArray,
+  RuleSources,
+  WriteFunction,
+  WriteStrategy,
+} from "./mapper.js";
+
+// function used as a transform, filter or failOn
+export type RuleFunction = (data: any, source: any, target: any) => any;
+
+// registered under a name, called with the arguments of the reference to create the rule function
+export type RuleFunctionFactory = (...args: any[]) => RuleFunction;
+
+// name of a registered function, or [name, ...args]
+export type NamedReference = string | [string, ...any[]];
+
+// a step of a serialized transform pipeline
+export type SerializedTransformStep =
+  | NamedReference
+  | { transform: NamedReference; failOn?: NamedReference };
+
+export type SerializedRuleObject = {
+  source?: string;
+  sources?: RuleSources;
+  target: string | string[] | Record<string, NamedReference | null>;
+  constant?: any;
+  defaultValue?: any;
+  required?: boolean;
+  failMessage?: string;
+  failCode?: string;
+  // strings are write strategies, arrays are [name, ...args] references
+  write?: Exclude<WriteStrategy, WriteFunction> | [string, ...any[]];
+  mapper?: SerializedStructure;
+  each?: SerializedStructure;
+  // arrays starting with a string are references, other arrays are pipelines
+  transform?: NamedReference | SerializedTransformStep[];
+  reverseTransform?: NamedReference | SerializedTransformStep[];
+  filter?: NamedReference;
+  failOn?: NamedReference;
+  // strings are condition expressions and JSONPaths, arrays are [name, ...args] references
+  when?: string | [string, ...any[]];
+  otherwise?: SerializedSubRule;
+  switch?: string | [string, ...any[]];
+  cases?: Record<string, SerializedSubRule>;
+  default?: SerializedSubRule;
+};
+
+export type SerializedSubRule =
+  | RuleArray
+  | (Omit<SerializedRuleObject, "target"> & {
+      target?: SerializedRuleObject["target"];
+    });
+
+export type SerializedRuleGroup = {
+  sourcePrefix?: string;
+  targetPrefix?: string;
+  rules: SerializedStructure;
+  filter?: NamedReference;
+  options?: Partial<MapperOptions>;
+};
+
+export type SerializedRule =
+  | RuleArray
+  | SerializedRuleObject
+  | SerializedRuleGroup;
+export type SerializedStructure = SerializedRule[];
@@ -0,0 +1,17 @@
+import type { Rule, Structure } from "./mapper.js";
+
+export type ReverseOptions = {
+  // default false, build the reversed mapper even if some rules cannot be inverted
+  partial: boolean;
+};
+
+export type ReverseIssue = {
+  index: number; // index of the rule in the original structure
+  rule: Rule;
+  reason: string;
+};
+
+export type ReverseResult = {
+  structure: Structure;
+  skipped: ReverseIssue[];
+};
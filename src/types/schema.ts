@@ -0,0 +1,44 @@
+import type { AsyncRuleObject, RuleObject } from "./mapper.js";
+
+export type JsonSchemaType =
+  | "string"
+  | "number"
+  | "integer"
+  | "boolean"
+  | "object"
+  | "array"
+  | "null";
+
+// subset of JSON Schema draft 2020-12, other keywords are ignored
+export type JsonSchema =
+  | boolean
+  | {
+      type?: JsonSchemaType | JsonSchemaType[];
+      enum?: any[];
+      properties?: Record<string, JsonSchema>;
+      required?: string[];
+      items?: JsonSchema;
+      minimum?: number;
+      maximum?: number;
+      exclusiveMinimum?: number;
+      exclusiveMaximum?: number;
+      minLength?: number;
+      maxLength?: number;
+      minItems?: number;
+      maxItems?: number;
+      pattern?: string;
+      [keyword: string]: any;
+    };
+
+export type SchemaIssue = {
+  path: string; // target path of the invalid value, empty for the root
+  keyword: string; // schema keyword that failed
+  message: string;
+  rule?: RuleObject | AsyncRuleObject; // rule that wrote the value, set by mappers
+  index?: number; // index of that rule in the structure
+};
+
+export type ValidationResult = {
+  valid: boolean;
+  issues: SchemaIssue[];
+};
@@ -0,0 +1,6 @@
+export type StreamOptions = {
+  // default 1, maximum number of records being mapped at once
+  recordsLimit: number;
+  // default true, emit targets in the order of their sources
+  ordered: boolean;
+};
@@ -0,0 +1,20 @@
+import type { AsyncRule, Rule } from "./mapper.js";
+
+export type DiagnosticSeverity = "error" | "warning";
+
+export type DiagnosticCode =
+  | "invalid-rule" // the rule shape is wrong
+  | "unknown-property" // the rule has a property mapstronaut does not know
+  | "invalid-source" // the source JSONPath is malformed
+  | "invalid-target" // the target dot-prop path is malformed
+  | "duplicate-target" // several rules write the same target
+  | "target-conflict" // a rule writes inside the target of another rule
+  | "invalid-reference"; // a named function cannot be resolved by the registry
+
+export type StructureDiagnostic = {
+  index: number; // index of the rule in the structure
+  rule: Rule | AsyncRule;
+  severity: DiagnosticSeverity;
+  code: DiagnosticCode;
+  message: string;
+};
@@ -0,0 +1,252 @@
+import { beforeEach, describe, it } from "mocha";
+import { strict as assert } from "assert";
+import { Readable, Writable } from "stream";
+import { pipeline } from "stream/promises";
+import { AsyncMapper } from "../src/async-mapper.js";
+import { createMapStream } from "../src/stream.js";
+import type { AsyncStructure } from "../src/types/mapper.js";
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function collect<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+  const items: T[] = [];
+  for await (const item of iterable) {
+    items.push(item);
+  }
+  return items;
+}
+
+async function* generate(count: number, pulled: number[] = []) {
+  for (let id = 0; id < count; id++) {
+    pulled.push(id);
+    yield { id, delay: (count - id) * 5 };
+  }
+}
+
+describe("Streaming mapping", () => {
+  let running = 0;
+  let maxRunning = 0;
+
+  const structure: AsyncStructure = [
+    {
+      source: "id",
+      target: "missionId",
+      transform: async (id: number, source) => {
+        running++;
+        maxRunning = Math.max(maxRunning, running);
+        await delay(source.delay);
+        running--;
+        return id;
+      },
+    },
+  ];
+
+  beforeEach(() => {
+    running = 0;
+    maxRunning = 0;
+  });
+
+  describe("AsyncMapper.mapStream", () => {
+    it("should map an async iterable in order", async () => {
+      const mapper = new AsyncMapper(structure);
+
+      const targets = await collect(
+        mapper.mapStream(generate(5), { recordsLimit: 3 }),
+      );
+
+      assert.deepEqual(
+        targets.map((target) => target.missionId),
+        [0, 1, 2, 3, 4],
+      );
+      assert.equal(maxRunning, 3);
+    });
+
+    it("should map one record at a time by default", async () => {
+      const mapper = new AsyncMapper(structure);
+
+      await collect(mapper.mapStream(generate(3)));
+
+      assert.equal(maxRunning, 1);
+    });
+
+    it("should map a sync iterable", async () => {
+      const mapper = new AsyncMapper([["name", "title"]]);
+
+      const targets = await collect(
+        mapper.mapStream([{ name: "Apollo" }, { name: "Artemis" }]),
+      );
+
+      assert.deepEqual(targets, [{ title: "Apollo" }, { title: "Artemis" }]);
+    });
+
+    it("should emit targets as soon as they are ready when unordered", async () => {
+      const mapper = new AsyncMapper(structure);
+
+      const targets = await collect(
+        mapper.mapStream(generate(3), { recordsLimit: 3, ordered: false }),
+      );
+
+      assert.deepEqual(
+        targets.map((target) => target.missionId),
+        [2, 1, 0],
+      );
+    });
+
+    it("should only pull sources when the consumer is ready", async () => {
+      const mapper = new AsyncMapper([["id", "missionId"]]);
+      const pulled: number[] = [];
+      let seen = 0;
+
+      for await (const _ of mapper.mapStream(generate(100, pulled), {
+        recordsLimit: 2,
+      })) {
+        if (++seen === 3) {
+          break;
+        }
+      }
+
+      assert.ok(pulled.length <= 5, `pulled ${pulled.length} sources`);
+    });
+
+    it("should apply filters, defaults and failOn like map", async () => {
+      const mapper = new AsyncMapper([
+        { source: "name", target: "title", defaultValue: "unknown" },
+        {
+          source: "fuel",
+          target: "fuel",
+          filter: async (fuel: number) => fuel > 0,
+        },
+      ]);
+
+      const targets = await collect(
+        mapper.mapStream([{ name: "Apollo", fuel: 0 }, { fuel: 10 }]),
+      );
+
+      assert.deepEqual(targets, [
+        { title: "Apollo" },
+        { title: "unknown", fuel: 10 },
+      ]);
+    });
+
+    it("should throw when a record fails", async () => {
+      const mapper = new AsyncMapper([
+        {
+          source: "id",
+          target: "id",
+          failOn: async (id: number) => id === 2,
+        },
+      ]);
+
+      await assert.rejects(
+        () => collect(mapper.mapStream(generate(5), { recordsLimit: 2 })),
+        /condition failed for rule with target 'id'/,
+      );
+    });
+
+    it("should reject an invalid recordsLimit", () => {
+      const mapper = new AsyncMapper(structure);
+
+      assert.throws(
+        () => mapper.mapStream([], { recordsLimit: 0 }),
+        /recordsLimit must be a positive integer/,
+      );
+    });
+  });
+
+  describe("createMapStream", () => {
+    const sink = (targets: any[]) =>
+      new Writable({
+        objectMode: true,
+        write(target, _encoding, callback) {
+          targets.push(target);
+          callback();
+        },
+      });
+
+    it("should map objects through a Transform stream", async () => {
+      const mapper = new AsyncMapper(structure);
+      const targets: any[] = [];
+
+      await pipeline(
+        Readable.from(generate(6)),
+        createMapStream(mapper, { recordsLimit: 3 }),
+        sink(targets),
+      );
+
+      assert.deepEqual(
+        targets.map((target) => target.missionId),
+        [0, 1, 2, 3, 4, 5],
+      );
+      assert.equal(maxRunning, 3);
+    });
+
+    it("should push targets as soon as they are ready when unordered", async () => {
+      const mapper = new AsyncMapper(structure);
+      const targets: any[] = [];
+
+      await pipeline(
+        Readable.from(generate(3)),
+        createMapStream(mapper, { recordsLimit: 3, ordered: false }),
+        sink(targets),
+      );
+
+      assert.deepEqual(
+        targets.map((target) => target.missionId),
+        [2, 1, 0],
+      );
+    });
+
+    it("should not start more records while the first one is pending", async () => {
+      let started = 0;
+      let startedBeforeFirst = 0;
+      const mapper = new AsyncMapper([
+        {
+          source: "id",
+          target: "missionId",
+          transform: async (id: number) => {
+            started++;
+            if (id === 0) {
+              await delay(50);
+              startedBeforeFirst = started;
+            }
+            return id;
+          },
+        },
+      ]);
+      const targets: any[] = [];
+
+      await pipeline(
+        Readable.from(generate(100)),
+        createMapStream(mapper, { recordsLimit: 2 }),
+        sink(targets),
+      );
+
+      assert.equal(startedBeforeFirst, 2);
+      assert.equal(targets.length, 100);
+      assert.deepEqual(
+        targets.slice(0, 3).map((target) => target.missionId),
+        [0, 1, 2],
+      );
+    });
+
+    it("should destroy the stream when a record fails", async () => {
+      const mapper = new AsyncMapper([
+        {
+          source: "id",
+          target: "id",
+          failOn: async (id: number) => id === 1,
+        },
+      ]);
+
+      await assert.rejects(
+        () =>
+          pipeline(
+            Readable.from(generate(4)),
+            createMapStream(mapper, { recordsLimit: 2 }),
+            sink([]),
+          ),
+        /condition failed for rule with target 'id'/,
+      );
+    });
+  });
+});
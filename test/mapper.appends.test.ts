@@ -0,0 +1,294 @@
+import { describe, it } from "mocha";
+import { strict as assert } from "assert";
+import { Mapper } from "../src/mapper.js";
+import { AsyncMapper } from "../src/async-mapper.js";
+import { WriteError } from "../src/errors.js";
+import { validateStructure } from "../src/structure.js";
+import { reverseStructure } from "../src/reverse.js";
+import { splitArrayMarker } from "../src/mapper/appends.js";
+import type { AsyncStructure, Structure } from "../src/types/mapper.js";
+
+describe("Array markers", () => {
+  const source = {
+    mission: {
+      launchSite: "Kennedy",
+      landingSite: "Shackleton",
+      backupSite: "Vandenberg",
+    },
+    crew: [
+      { name: "Sarah Chen", role: "commander" },
+      { name: "Marcus Rodriguez", role: "pilot" },
+    ],
+  };
+
+  const delayed = (ms: number) => async (value: any) => {
+    await new Promise((resolve) => setTimeout(resolve, ms));
+    return value;
+  };
+
+  describe("Mapper", () => {
+    it("should append, prepend and add unique values", () => {
+      const mapper = new Mapper(
+        [
+          ["mission.launchSite", "sites[]"],
+          ["mission.landingSite", "sites[+]"],
+          ["mission.backupSite", "sites[^]"],
+          ["mission.launchSite", "visited[~]"],
+          ["mission.launchSite", "visited[~]"],
+          ["mission.landingSite", "visited[~]"],
+        ],
+        { automap: false },
+      );
+
+      assert.deepEqual(mapper.map(source), {
+        sites: ["Vandenberg", "Kennedy", "Shackleton"],
+        visited: ["Kennedy", "Shackleton"],
+      });
+    });
+
+    it("should add to the arrays of an existing target", () => {
+      const mapper = new Mapper(
+        [
+          ["mission.launchSite", "sites[]"],
+          ["mission.backupSite", "sites[^]"],
+          ["mission.launchSite", "visited[~]"],
+        ],
+        { automap: false },
+      );
+
+      assert.deepEqual(
+        mapper.map(source, { sites: ["Baikonur"], visited: ["Kennedy"] }),
+        {
+          sites: ["Vandenberg", "Baikonur", "Kennedy"],
+          visited: ["Kennedy"],
+        },
+      );
+    });
+
+    it("should write the tail of the path in a new element", () => {
+      const mapper = new Mapper(
+        [
+          ["crew[0].name", "members[+].name"],
+          ["crew[1]", "members[+]"],
+          ["crew[1].role", "members[^].roles[]"],
+        ],
+        { automap: false },
+      );
+
+      assert.deepEqual(mapper.map(source).members, [
+        { roles: ["pilot"] },
+        { name: "Sarah Chen" },
+        source.crew[1],
+      ]);
+    });
+
+    it("should add nothing for skipped values", () => {
+      const mapper = new Mapper(
+        [
+          ["mission.missing", "sites[]"],
+          ["mission.launchSite", "sites[]"],
+          {
+            source: "mission.backupSite",
+            target: "sites[]",
+            transform: () => null,
+          },
+        ],
+        { automap: false, skipNull: true },
+      );
+
+      assert.deepEqual(mapper.map(source), { sites: ["Kennedy"] });
+    });
+
+    it("should fail when the target is not an array", () => {
+      const mapper = new Mapper([["mission.launchSite", "mission[]"]], {
+        automap: false,
+      });
+
+      assert.throws(
+        () => mapper.map(source, { mission: { id: 3 } }),
+        (error: WriteError) =>
+          error instanceof WriteError &&
+          error.target === "mission[]" &&
+          /'mission' is not an array/.test(error.message),
+      );
+    });
+
+    it("should follow the order of nested structures and groups", () => {
+      const structure: Structure = [
+        ["mission.launchSite", "sites[]"],
+        {
+          sourcePrefix: "mission",
+          targetPrefix: "sites",
+          rules: [
+            ["landingSite", "[]"],
+            ["backupSite", "[~]"],
+          ],
+        },
+        {
+          source: "crew",
+          target: "crew",
+          mapper: [
+            ["[0].name", "names[]"],
+            ["[1].name", "names[]"],
+          ],
+        },
+      ];
+
+      const expected = {
+        sites: ["Kennedy", "Shackleton", "Vandenberg"],
+        crew: { names: ["Sarah Chen", "Marcus Rodriguez"] },
+      };
+
+      assert.deepEqual(
+        new Mapper(structure, { automap: false }).map(source),
+        expected,
+      );
+      assert.deepEqual(
+        new Mapper(structure, { automap: false, compiled: true }).map(source),
+        expected,
+      );
+    });
+
+    it("should append to the elements of wildcard targets", () => {
+      const mapper = new Mapper(
+        [
+          ["crew[*].name", "members[*].tags[]"],
+          ["crew[*].role", "members[*].tags[]"],
+        ],
+        { automap: false },
+      );
+
+      assert.deepEqual(mapper.map(source).members, [
+        { tags: ["Sarah Chen", "commander"] },
+        { tags: ["Marcus Rodriguez", "pilot"] },
+      ]);
+    });
+
+    it("should start from empty arrays on every call", () => {
+      const mapper = new Mapper([["mission.launchSite", "sites[]"]], {
+        automap: false,
+        compiled: true,
+      });
+
+      mapper.map(source);
+      assert.deepEqual(mapper.map(source), { sites: ["Kennedy"] });
+    });
+  });
+
+  describe("AsyncMapper", () => {
+    it("should keep the order of the rules when they run in parallel", async () => {
+      const structure: AsyncStructure = [
+        {
+          source: "mission.launchSite",
+          target: "sites[]",
+          transform: delayed(15),
+        },
+        {
+          source: "mission.landingSite",
+          target: "sites[]",
+          transform: delayed(5),
+        },
+        { source: "mission.backupSite", target: "sites[^]" },
+        {
+          source: "mission.backupSite",
+          target: "sites[^]",
+          transform: delayed(10),
+        },
+        {
+          sourcePrefix: "mission",
+          options: { parallelRun: true },
+          rules: [
+            {
+              source: "launchSite",
+              target: "visited[~]",
+              transform: delayed(1),
+            },
+            {
+              source: "landingSite",
+              target: "visited[~]",
+              transform: delayed(10),
+            },
+            {
+              source: "landingSite",
+              target: "visited[~]",
+              transform: delayed(5),
+            },
+          ],
+        },
+      ];
+
+      const mapper = new AsyncMapper(structure, {
+        automap: false,
+        parallelRun: true,
+      });
+
+      assert.deepEqual(await mapper.map(source), {
+        sites: ["Vandenberg", "Vandenberg", "Kennedy", "Shackleton"],
+        visited: ["Kennedy", "Shackleton"],
+      });
+    });
+
+    it("should order unique values by rule when a later rule completes first", async () => {
+      const mapper = new AsyncMapper(
+        [
+          {
+            source: "mission.launchSite",
+            target: "visited[~]",
+            transform: delayed(10),
+          },
+          { source: "mission.landingSite", target: "visited[~]" },
+          { source: "mission.launchSite", target: "visited[~]" },
+        ],
+        { automap: false, parallelRun: true },
+      );
+
+      assert.deepEqual(await mapper.map(source), {
+        visited: ["Kennedy", "Shackleton"],
+      });
+    });
+  });
+
+  describe("paths", () => {
+    it("should split paths at the first unescaped marker", () => {
+      assert.equal(splitArrayMarker("sites[0]"), null);
+      assert.equal(splitArrayMarker("sites\\[]"), null);
+      assert.deepEqual(splitArrayMarker("sites[+]"), {
+        head: "sites",
+        marker: "append",
+        tail: "",
+      });
+      assert.deepEqual(splitArrayMarker("crew[^].tags[]"), {
+        head: "crew",
+        marker: "prepend",
+        tail: ".tags[]",
+      });
+      assert.equal(splitArrayMarker("visited[~]")!.marker, "unique");
+    });
+  });
+
+  describe("structures", () => {
+    it("should validate array markers without reporting conflicts", () => {
+      const diagnostics = validateStructure([
+        ["mission.launchSite", "sites[]"],
+        ["mission.landingSite", "sites[]"],
+        ["crew[0].name", "crew[+].name"],
+        ["crew[1].name", "crew[+].name"],
+        ["mission.backupSite", "sites[]name"],
+      ]);
+
+      assert.deepEqual(
+        diagnostics.map((diagnostic) => [diagnostic.index, diagnostic.code]),
+        [[4, "invalid-target"]],
+      );
+    });
+
+    it("should not reverse array markers", () => {
+      const result = reverseStructure([["mission.launchSite", "sites[]"]]);
+
+      assert.equal(
+        result.skipped[0]!.reason,
+        "array markers cannot be inverted",
+      );
+    });
+  });
+});
@@ -0,0 +1,214 @@
+import { describe, it } from "mocha";
+import { strict as assert } from "assert";
+import { Mapper, mapObjects } from "../src/mapper.js";
+import { AsyncMapper, mapObjectsAsync } from "../src/async-mapper.js";
+import type { AsyncStructure, Structure } from "../src/types/mapper.js";
+
+describe("Batch mapping", () => {
+  const astronauts = [
+    { name: "Sarah Chen", missions: 3 },
+    { name: "Marcus Rodriguez", missions: 1 },
+    { name: "Elena Petrova", missions: 5 },
+  ];
+
+  const structure: Structure = [
+    ["name", "fullName"],
+    {
+      source: "missions",
+      target: "veteran",
+      transform: (missions) => missions > 2,
+    },
+  ];
+
+  describe("Mapper.mapMany", () => {
+    it("should map every record in input order", () => {
+      const result = new Mapper(structure).mapMany(astronauts);
+
+      assert.deepEqual(result, [
+        { fullName: "Sarah Chen", veteran: true },
+        { fullName: "Marcus Rodriguez", veteran: false },
+        { fullName: "Elena Petrova", veteran: true },
+      ]);
+    });
+
+    it("should throw on the first failing record by default", () => {
+      const mapper = new Mapper([
+        { source: "missions", target: "missions", failOn: (m) => m < 2 },
+      ]);
+
+      assert.throws(
+        () => mapper.mapMany(astronauts),
+        /condition failed for rule with target 'missions'/,
+      );
+    });
+
+    it("should collect failures when asked to", () => {
+      const mapper = new Mapper([
+        { source: "missions", target: "missions", failOn: (m) => m < 2 },
+      ]);
+
+      const batch = mapper.mapMany(astronauts, { collectFailures: true });
+
+      assert.deepEqual(batch.results, [
+        { missions: 3 },
+        undefined,
+        { missions: 5 },
+      ]);
+      assert.equal(batch.failures.length, 1);
+      assert.equal(batch.failures[0]!.index, 1);
+      assert.equal(batch.failures[0]!.source, astronauts[1]);
+      assert.match(
+        (batch.failures[0]!.error as Error).message,
+        /condition failed/,
+      );
+    });
+
+    it("should map an empty batch", () => {
+      assert.deepEqual(new Mapper(structure).mapMany([]), []);
+    });
+  });
+
+  describe("mapObjects", () => {
+    it("should map every record with the given options", () => {
+      const result = mapObjects([["name", "fullName"]], astronauts, {
+        automap: false,
+      });
+
+      assert.deepEqual(result, [
+        { fullName: "Sarah Chen" },
+        { fullName: "Marcus Rodriguez" },
+        { fullName: "Elena Petrova" },
+      ]);
+    });
+  });
+
+  describe("AsyncMapper.mapMany", () => {
+    const delayedStructure: AsyncStructure = [
+      {
+        source: "name",
+        target: "fullName",
+        transform: async (name: string) => {
+          await new Promise((resolve) => setTimeout(resolve, 30 - name.length));
+          return name;
+        },
+      },
+    ];
+
+    it("should map records concurrently and keep input order", async () => {
+      const start = Date.now();
+      const result = await new AsyncMapper(delayedStructure).mapMany(
+        astronauts,
+      );
+      const duration = Date.now() - start;
+
+      assert.deepEqual(result, [
+        { fullName: "Sarah Chen" },
+        { fullName: "Marcus Rodriguez" },
+        { fullName: "Elena Petrova" },
+      ]);
+      assert.ok(
+        duration < 60,
+        `Expected concurrent records, took ${duration}ms`,
+      );
+    });
+
+    it("should honor recordsLimit independently from parallelJobsLimit", async () => {
+      let running = 0;
+      let maxRunning = 0;
+
+      const mapper = new AsyncMapper(
+        [
+          {
+            source: "name",
+            target: "fullName",
+            transform: async (name: string) => {
+              running++;
+              maxRunning = Math.max(maxRunning, running);
+              await new Promise((resolve) => setTimeout(resolve, 10));
+              running--;
+              return name;
+            },
+          },
+        ],
+        { parallelRun: true, parallelJobsLimit: 1 },
+      );
+
+      const records = Array.from({ length: 8 }, (_, i) => ({ name: `A${i}` }));
+      const result = await mapper.mapMany(records, { recordsLimit: 3 });
+
+      assert.equal(result.length, 8);
+      assert.equal(result[7].fullName, "A7");
+      assert.equal(maxRunning, 3);
+    });
+
+    it("should reject on the first failing record by default", async () => {
+      const mapper = new AsyncMapper([
+        {
+          source: "missions",
+          target: "missions",
+          failOn: async (m: number) => m < 2,
+        },
+      ]);
+
+      await assert.rejects(
+        () => mapper.mapMany(astronauts, { recordsLimit: 2 }),
+        /condition failed for rule with target 'missions'/,
+      );
+    });
+
+    it("should collect failures in input order", async () => {
+      const mapper = new AsyncMapper([
+        {
+          source: "missions",
+          target: "missions",
+          failOn: async (m: number) => {
+            await new Promise((resolve) => setTimeout(resolve, 10 - m));
+            return m !== 3;
+          },
+        },
+      ]);
+
+      const batch = await mapper.mapMany(astronauts, {
+        collectFailures: true,
+      });
+
+      assert.deepEqual(batch.results, [{ missions: 3 }, undefined, undefined]);
+      assert.deepEqual(
+        batch.failures.map((failure) => failure.index),
+        [1, 2],
+      );
+    });
+  });
+
+  describe("mapObjectsAsync", () => {
+    it("should map every record with a records limit", async () => {
+      const result = await mapObjectsAsync(
+        [["name", "fullName"]],
+        astronauts,
+        undefined,
+        { recordsLimit: 1 },
+      );
+
+      assert.deepEqual(result, [
+        { fullName: "Sarah Chen" },
+        { fullName: "Marcus Rodriguez" },
+        { fullName: "Elena Petrova" },
+      ]);
+    });
+
+    it("should collect failing records", async () => {
+      const batch = await mapObjectsAsync(
+        [{ source: "name", target: "fullName", required: true }],
+        [astronauts[0], {}],
+        { automap: false },
+        { collectFailures: true },
+      );
+
+      assert.deepEqual(batch.results, [{ fullName: "Sarah Chen" }, undefined]);
+      assert.deepEqual(
+        batch.failures.map((failure) => failure.index),
+        [1],
+      );
+    });
+  });
+});
@@ -0,0 +1,200 @@
+import { describe, it } from "mocha";
+import { strict as assert } from "assert";
+import { Mapper } from "../src/mapper.js";
+import { AsyncMapper } from "../src/async-mapper.js";
+import { MappingAggregateError, MappingError } from "../src/errors.js";
+
+describe("Collecting mapping errors", () => {
+  const source = {
+    mission: { name: "Artemis III", fuel: -5 },
+    crew: [
+      { name: "Sarah Chen", age: 42 },
+      { name: "Marcus Rodriguez", age: -1 },
+    ],
+  };
+
+  const catchAggregate = (fn: () => unknown): MappingAggregateError => {
+    try {
+      fn();
+    } catch (error) {
+      assert.ok(error instanceof MappingAggregateError);
+      return error;
+    }
+    assert.fail("Expected a MappingAggregateError");
+  };
+
+  it("should throw on the first failure by default", () => {
+    const mapper = new Mapper([
+      { source: "mission.fuel", target: "fuel", failOn: (fuel) => fuel < 0 },
+      { source: "mission.name", target: "name", failOn: () => true },
+    ]);
+
+    assert.throws(
+      () => mapper.map(source),
+      (error: Error) =>
+        !(error instanceof MappingAggregateError) &&
+        /target 'fuel'/.test(error.message),
+    );
+  });
+
+  it("should collect every failing rule", () => {
+    const mapper = new Mapper(
+      [
+        ["mission.name", "title"],
+        { source: "mission.fuel", target: "fuel", failOn: (fuel) => fuel < 0 },
+        { constant: 1, target: "version", failOn: () => true },
+        ["crew[0].name", "commander"],
+      ],
+      { collectErrors: true },
+    );
+
+    const error = catchAggregate(() => mapper.map(source));
+
+    assert.equal(error.errors.length, 2);
+    assert.match(error.message, /^Mapping failed with 2 errors:/);
+
+    const [fuel, version] = error.errors;
+    assert.ok(fuel instanceof MappingError);
+    assert.equal(fuel.index, 1);
+    assert.equal(fuel.target, "fuel");
+    assert.equal(fuel.source, "$.mission.fuel");
+    assert.equal(fuel.value, -5);
+    assert.equal(version!.index, 2);
+    assert.equal(version!.source, undefined);
+
+    assert.deepEqual(error.target, {
+      title: "Artemis III",
+      commander: "Sarah Chen",
+    });
+  });
+
+  it("should collect transform and JSONPath errors with their cause", () => {
+    const failure = new Error("invalid date");
+    const mapper = new Mapper(
+      [
+        {
+          source: "mission.name",
+          target: "launch",
+          transform: () => {
+            throw failure;
+          },
+        },
+        ["$.mission[?(@.fuel <)]", "broken"],
+      ],
+      { collectErrors: true },
+    );
+
+    const error = catchAggregate(() => mapper.map(source));
+
+    assert.equal(error.errors.length, 2);
+    assert.equal(error.errors[0]!.cause, failure);
+    assert.match(error.errors[0]!.message, /invalid date/);
+    assert.equal(error.errors[1]!.index, 1);
+    assert.match(error.errors[1]!.message, /Failed to extract data/);
+  });
+
+  it("should collect failures of nested structures with their full target", () => {
+    const mapper = new Mapper(
+      [
+        {
+          source: "crew",
+          target: "members",
+          each: [
+            ["name", "fullName"],
+            { source: "age", target: "age", failOn: (age) => age < 0 },
+          ],
+        },
+      ],
+      { collectErrors: true },
+    );
+
+    const error = catchAggregate(() => mapper.map(source));
+
+    assert.equal(error.errors.length, 1);
+    assert.equal(error.errors[0]!.target, "members[1].age");
+    assert.equal(error.errors[0]!.index, 0);
+    assert.deepEqual(error.target, {
+      members: [
+        { fullName: "Sarah Chen", age: 42 },
+        { fullName: "Marcus Rodriguez" },
+      ],
+    });
+  });
+
+  it("should collect errors with a compiled structure", () => {
+    const mapper = new Mapper(
+      [
+        { source: "mission.fuel", target: "fuel", failOn: (fuel) => fuel < 0 },
+        ["mission.name", "title"],
+      ],
+      { collectErrors: true, compiled: true },
+    );
+
+    const error = catchAggregate(() => mapper.map(source));
+
+    assert.equal(error.errors.length, 1);
+    assert.deepEqual(error.target, { title: "Artemis III" });
+  });
+
+  it("should not throw when every rule succeeds", () => {
+    const mapper = new Mapper([["mission.name", "title"]], {
+      collectErrors: true,
+    });
+
+    assert.deepEqual(mapper.map(source), { title: "Artemis III" });
+  });
+
+  describe("AsyncMapper", () => {
+    const structure = [
+      {
+        source: "mission.fuel",
+        target: "fuel",
+        failOn: async (fuel: number) => {
+          await new Promise((resolve) => setTimeout(resolve, 10));
+          return fuel < 0;
+        },
+      },
+      {
+        source: "crew[1].age",
+        target: "age",
+        failOn: (age: number) => age < 0,
+      },
+      ["mission.name", "title"] as [string, string],
+    ];
+
+    it("should collect failures when running sequentially", async () => {
+      const mapper = new AsyncMapper(structure, { collectErrors: true });
+
+      await assert.rejects(
+        () => mapper.map(source),
+        (error: MappingAggregateError) => {
+          assert.ok(error instanceof MappingAggregateError);
+          assert.deepEqual(
+            error.errors.map((failure) => failure.target),
+            ["fuel", "age"],
+          );
+          assert.deepEqual(error.target, { title: "Artemis III" });
+          return true;
+        },
+      );
+    });
+
+    it("should sort failures by rule index when running in parallel", async () => {
+      const mapper = new AsyncMapper(structure, {
+        collectErrors: true,
+        parallelRun: true,
+      });
+
+      await assert.rejects(
+        () => mapper.map(source),
+        (error: MappingAggregateError) => {
+          assert.deepEqual(
+            error.errors.map((failure) => failure.index),
+            [0, 1],
+          );
+          return true;
+        },
+      );
+    });
+  });
+});
@@ -0,0 +1,162 @@
+import { describe, it } from "mocha";
+import { strict as assert } from "assert";
+import { Mapper } from "../src/mapper.js";
+import { compileJsonPath, compileOutPath } from "../src/mapper/compiler.js";
+import { NO_MATCH } from "../src/mapper/no-match.js";
+import type { Structure } from "../src/types/mapper.js";
+
+describe("Compiled mapping", () => {
+  const source = {
+    mission: {
+      name: "Artemis III",
+      status: null,
+      launch: { date: "2027-07-15T14:30:00Z", site: "KSC" },
+      "launch.window": "July",
+    },
+    crew: [
+      { name: "Sarah Chen", role: "commander", experience: 2840 },
+      { name: "Marcus Rodriguez", role: "pilot", experience: 1650 },
+    ],
+    fuel: 0,
+  };
+
+  const structure: Structure = [
+    ["mission.name", "title"],
+    ["mission.status", "status"],
+    ["mission.missing.value", "missing"],
+    ["$['mission']['launch.window']", "window"],
+    ["crew[1].name", "pilot"],
+    ["crew[*].name", "names"],
+    ["crew[?(@.role=='commander')].name", "commander"],
+    ["$..site", "sites"],
+    ["crew.length", "crewSize"],
+    ["fuel", "fuel"],
+    ["mission.launch", "schedule[0]"],
+    ["mission.launch.site", "location\\.name"],
+    { constant: "planned", target: "meta.state" },
+    {
+      source: "crew",
+      target: "members",
+      each: [["name", "fullName"]],
+    },
+    {
+      source: "mission.launch.date",
+      target: "launchYear",
+      transform: (date) => new Date(date).getFullYear(),
+    },
+    { source: "mission.unknown", target: "unknown", defaultValue: "n/a" },
+  ];
+
+  it("should produce the same result as interpreted mapping", () => {
+    const interpreted = new Mapper(structure).map(source);
+    const compiled = new Mapper(structure).compile()(source);
+
+    assert.deepEqual(compiled, interpreted);
+  });
+
+  it("should map with a compiled structure when the compiled option is set", () => {
+    const mapper = new Mapper(structure, { compiled: true });
+
+    assert.deepEqual(mapper.map(source), new Mapper(structure).map(source));
+    assert.deepEqual(mapper.map(source), new Mapper(structure).map(source));
+  });
+
+  it("should honor options and existing targets", () => {
+    const options = { skipNull: true, automap: true };
+    const target = { fuel: 50, title: "unknown" };
+
+    const interpreted = new Mapper(structure, options).map(source, {
+      ...target,
+    });
+    const compiled = new Mapper(structure, options).compile()(source, {
+      ...target,
+    });
+
+    assert.deepEqual(compiled, interpreted);
+  });
+
+  it("should recompile when the structure changes", () => {
+    const mapper = new Mapper([["mission.name", "title"]], { compiled: true });
+    mapper.map(source);
+
+    mapper.setStructure([["mission.launch.site", "site"]]);
+
+    assert.deepEqual(mapper.map(source), { site: "KSC" });
+  });
+
+  it("should keep throwing the same errors", () => {
+    const mapper = new Mapper(
+      [{ source: "fuel", target: "fuel", failOn: (fuel) => fuel === 0 }],
+      { compiled: true },
+    );
+
+    assert.throws(
+      () => mapper.map(source),
+      /Mapping failed: condition failed for rule with target 'fuel'/,
+    );
+  });
+
+  it("should use JSONPath when jsonPathOptions are set", () => {
+    const mapper = new Mapper([["mission.name", "title"]], {
+      jsonPathOptions: { resultType: "path" },
+    });
+
+    assert.deepEqual(mapper.compile()(source), {
+      title: "$['mission']['name']",
+    });
+  });
+
+  describe("compileJsonPath", () => {
+    it("should compile simple paths only", () => {
+      assert.ok(compileJsonPath("$.a.b[0]['c.d']"));
+      assert.ok(compileJsonPath("$"));
+      assert.equal(compileJsonPath("$.a[*]"), null);
+      assert.equal(compileJsonPath("$..a"), null);
+      assert.equal(compileJsonPath("$.a[?(@.b)]"), null);
+      assert.equal(compileJsonPath("$.a[0:2]"), null);
+      assert.equal(compileJsonPath("$.a[-1]"), null);
+    });
+
+    it("should only read own properties", () => {
+      const read = compileJsonPath("$.name.toString")!;
+
+      assert.equal(read({ name: "Orion" }), NO_MATCH);
+      assert.equal(compileJsonPath("$.name.length")!({ name: "Orion" }), 5);
+    });
+
+    it("should not match past null and undefined values", () => {
+      const read = compileJsonPath("$.a.b")!;
+
+      assert.equal(read({ a: null }), NO_MATCH);
+      assert.equal(read(null), NO_MATCH);
+      assert.equal(compileJsonPath("$.a")!({ a: null }), null);
+      assert.equal(compileJsonPath("$.a")!({ a: undefined }), undefined);
+    });
+  });
+
+  describe("compileOutPath", () => {
+    it("should create missing objects and arrays", () => {
+      const target: any = {};
+
+      compileOutPath("a.b[1].c")!(target, 1);
+
+      assert.ok(Array.isArray(target.a.b));
+      assert.equal(target.a.b.length, 2);
+      assert.deepEqual(target.a.b[1], { c: 1 });
+    });
+
+    it("should leave disallowed keys to dot-prop", () => {
+      assert.equal(compileOutPath("__proto__.polluted"), null);
+      assert.equal(compileOutPath("a.constructor"), null);
+      assert.equal(compileOutPath(""), null);
+    });
+
+    it("should handle escaped dots", () => {
+      const target: any = {};
+
+      compileOutPath("a\\.b.c")!(target, 1);
+
+      assert.deepEqual(target, { "a.b": { c: 1 } });
+    });
+  });
+});
@@ -0,0 +1,407 @@
+import { describe, it } from "mocha";
+import { strict as assert } from "assert";
+import { Mapper } from "../src/mapper.js";
+import { AsyncMapper } from "../src/async-mapper.js";
+import { ConditionError, MappingAggregateError } from "../src/errors.js";
+import { TransformRegistry } from "../src/registry.js";
+import { loadStructure, serializeStructure } from "../src/serialization.js";
+import { validateStructure } from "../src/structure.js";
+import { parseCondition, testCondition } from "../src/mapper/conditions.js";
+import type { Structure } from "../src/types/mapper.js";
+
+describe("Conditional rules", () => {
+  const crewed = {
+    mission: { crewed: true, type: "crewed", crew: 4 },
+    crew: [
+      { name: "Sarah Chen", role: "commander" },
+      { name: "Marcus Rodriguez", role: "pilot" },
+    ],
+  };
+  const robotic = { mission: { crewed: false, type: "probe", crew: 0 } };
+
+  describe("parseCondition", () => {
+    it("should parse existence and comparison expressions", () => {
+      assert.deepEqual(parseCondition("mission.crewed"), {
+        path: "mission.crewed",
+        operator: null,
+        value: undefined,
+      });
+      assert.deepEqual(parseCondition("mission.crew >= 2"), {
+        path: "mission.crew",
+        operator: ">=",
+        value: 2,
+      });
+      assert.deepEqual(parseCondition("mission.type != 'probe'"), {
+        path: "mission.type",
+        operator: "!=",
+        value: "probe",
+      });
+      assert.deepEqual(parseCondition('mission.type == "a b"'), {
+        path: "mission.type",
+        operator: "==",
+        value: "a b",
+      });
+    });
+
+    it("should ignore operators inside JSONPath filters", () => {
+      assert.deepEqual(
+        parseCondition("crew[?(@.role=='commander')].name == null"),
+        {
+          path: "crew[?(@.role=='commander')].name",
+          operator: "==",
+          value: null,
+        },
+      );
+    });
+
+    it("should reject invalid literals and missing paths", () => {
+      assert.throws(
+        () => parseCondition("mission.type == crewed"),
+        /compares with an invalid value 'crewed'/,
+      );
+      assert.throws(() => parseCondition("== 1"), /has no JSONPath/);
+    });
+
+    it("should compare strictly", () => {
+      const test = (expression: string, value: any) =>
+        testCondition(parseCondition(expression), value);
+
+      assert.equal(test("a", 0), true);
+      assert.equal(test("a", null), false);
+      assert.equal(test("a == 1", "1"), false);
+      assert.equal(test("a > 1", "2"), false);
+      assert.equal(test("a > 'a'", "b"), true);
+      assert.equal(test("a <= 3", 3), true);
+    });
+  });
+
+  describe("when", () => {
+    it("should process the rule when the expression is true", () => {
+      const mapper = new Mapper(
+        [
+          {
+            when: "mission.crewed == true",
+            source: "crew[?(@.role=='commander')].name",
+            target: "lead",
+          },
+        ],
+        { automap: false },
+      );
+
+      assert.deepEqual(mapper.map(crewed), { lead: ["Sarah Chen"] });
+      assert.deepEqual(mapper.map(robotic), {});
+    });
+
+    it("should process otherwise with the parent target", () => {
+      const mapper = new Mapper(
+        [
+          {
+            when: "mission.crew > 0",
+            source: "crew[0].name",
+            target: "lead",
+            otherwise: { constant: "autopilot" },
+          },
+        ],
+        { automap: false },
+      );
+
+      assert.deepEqual(mapper.map(crewed), { lead: "Sarah Chen" });
+      assert.deepEqual(mapper.map(robotic), { lead: "autopilot" });
+    });
+
+    it("should test existence", () => {
+      const mapper = new Mapper(
+        [{ when: "crew", constant: true, target: "hasCrew" }],
+        { automap: false },
+      );
+
+      assert.deepEqual(mapper.map(crewed), { hasCrew: true });
+      assert.deepEqual(mapper.map(robotic), {});
+      assert.deepEqual(mapper.map({ crew: null }), {});
+    });
+
+    it("should accept predicates", () => {
+      const mapper = new Mapper(
+        [
+          { constant: "draft", target: "status" },
+          {
+            when: (source, target) =>
+              source.mission.crewed && target.status === "draft",
+            constant: "ready",
+            target: "crewStatus",
+            otherwise: ["mission.type", "crewStatus"],
+          },
+        ],
+        { automap: false },
+      );
+
+      assert.deepEqual(mapper.map(crewed), {
+        status: "draft",
+        crewStatus: "ready",
+      });
+      assert.deepEqual(mapper.map(robotic), {
+        status: "draft",
+        crewStatus: "probe",
+      });
+    });
+
+    it("should throw a ConditionError when the predicate throws", () => {
+      const mapper = new Mapper([
+        {
+          when: () => {
+            throw new Error("no telemetry");
+          },
+          constant: 1,
+          target: "value",
+        },
+      ]);
+
+      assert.throws(
+        () => mapper.map(crewed),
+        (error: unknown) =>
+          error instanceof ConditionError &&
+          error.phase === "condition" &&
+          error.index === 0 &&
+          /condition threw: no telemetry for rule with target 'value'/.test(
+            error.message,
+          ),
+      );
+    });
+  });
+
+  describe("switch", () => {
+    const structure: Structure = [
+      {
+        target: "vehicle",
+        switch: "mission.type",
+        cases: {
+          crewed: { source: "crew[0].name", transform: (name) => `${name}'s` },
+          cargo: { constant: "carrier" },
+          probe: ["mission.type", "probe"],
+        },
+        default: { constant: "unknown" },
+      },
+    ];
+
+    it("should process the matching case", () => {
+      const mapper = new Mapper(structure, { automap: false });
+
+      assert.deepEqual(mapper.map(crewed), { vehicle: "Sarah Chen's" });
+      assert.deepEqual(mapper.map({ mission: { type: "cargo" } }), {
+        vehicle: "carrier",
+      });
+      assert.deepEqual(mapper.map(robotic), { probe: "probe" });
+    });
+
+    it("should process the default case", () => {
+      const mapper = new Mapper(structure, { automap: false });
+
+      assert.deepEqual(mapper.map({ mission: { type: "rover" } }), {
+        vehicle: "unknown",
+      });
+      assert.deepEqual(mapper.map({}), { vehicle: "unknown" });
+      assert.deepEqual(mapper.map({ mission: { type: "toString" } }), {
+        vehicle: "unknown",
+      });
+    });
+
+    it("should write nothing without a matching case or default", () => {
+      const mapper = new Mapper(
+        [
+          {
+            target: "count",
+            switch: (source) => source.mission.crew,
+            cases: { 4: { constant: "four" }, 0: { constant: "none" } },
+          },
+        ],
+        { automap: false },
+      );
+
+      assert.deepEqual(mapper.map(crewed), { count: "four" });
+      assert.deepEqual(mapper.map(robotic), { count: "none" });
+      assert.deepEqual(mapper.map({ mission: { crew: 2 } }), {});
+    });
+
+    it("should combine when and switch", () => {
+      const mapper = new Mapper(
+        [
+          {
+            when: "mission.crewed",
+            target: "vehicle",
+            switch: "mission.type",
+            cases: { crewed: { constant: "capsule" } },
+          },
+        ],
+        { automap: false },
+      );
+
+      assert.deepEqual(mapper.map(crewed), { vehicle: "capsule" });
+      assert.deepEqual(
+        mapper.map({ mission: { type: "crewed", crewed: null } }),
+        {},
+      );
+    });
+
+    it("should collect errors of sub-rules with the index of the parent", () => {
+      const mapper = new Mapper(
+        [
+          ["mission.type", "type"],
+          {
+            target: "vehicle",
+            switch: "mission.type",
+            cases: { crewed: { source: "crew[0]", failOn: () => true } },
+          },
+        ],
+        { collectErrors: true },
+      );
+
+      assert.throws(
+        () => mapper.map(crewed),
+        (error: unknown) =>
+          error instanceof MappingAggregateError &&
+          error.errors.length === 1 &&
+          error.errors[0]!.index === 1 &&
+          error.errors[0]!.target === "vehicle",
+      );
+    });
+
+    it("should reverse none of the conditional rules", () => {
+      assert.throws(
+        () => new Mapper(structure).reverse(),
+        /conditional rules cannot be inverted/,
+      );
+    });
+  });
+
+  describe("AsyncMapper", () => {
+    it("should await predicates and switch functions", async () => {
+      const mapper = new AsyncMapper(
+        [
+          {
+            when: async (source) => source.mission.crewed,
+            source: "crew[0].name",
+            target: "lead",
+            otherwise: { constant: "autopilot" },
+          },
+          {
+            target: "vehicle",
+            switch: async (source: any) => source.mission.type,
+            cases: {
+              crewed: { source: "crew[1].name", transform: async (n) => n },
+            },
+            default: { constant: "none" },
+          },
+        ],
+        { automap: false },
+      );
+
+      assert.deepEqual(await mapper.map(crewed), {
+        lead: "Sarah Chen",
+        vehicle: "Marcus Rodriguez",
+      });
+      assert.deepEqual(await mapper.map(robotic), {
+        lead: "autopilot",
+        vehicle: "none",
+      });
+    });
+  });
+
+  describe("structures", () => {
+    it("should validate conditions and sub-rules", () => {
+      const diagnostics = validateStructure([
+        { when: "mission.crewed", constant: 1, target: "a" },
+        { when: "mission.type == crewed", constant: 1, target: "b" },
+        { when: 1, constant: 1, target: "c" } as any,
+        { otherwise: { constant: 1 }, constant: 1, target: "d" },
+        {
+          target: "e",
+          switch: "mission.type",
+          cases: { crewed: { target: "f" } as any },
+          default: { constant: 1, target: "g." },
+        },
+        { target: "h", switch: "type", source: "type", cases: {} },
+        { target: "i", switch: "type" } as any,
+      ]);
+
+      assert.deepEqual(
+        diagnostics.map((diagnostic) => [
+          diagnostic.index,
+          diagnostic.code,
+          diagnostic.message,
+        ]),
+        [
+          [
+            1,
+            "invalid-source",
+            "condition 'mission.type == crewed' compares with an invalid value 'crewed', expected a number, a quoted string, true, false or null",
+          ],
+          [
+            2,
+            "invalid-rule",
+            "'when' must be a function or a condition expression",
+          ],
+          [3, "invalid-rule", "'otherwise' requires 'when'"],
+          [
+            4,
+            "invalid-rule",
+            "case 'crewed': rule must have either 'source' or 'constant' defined",
+          ],
+          [
+            4,
+            "invalid-target",
+            "default: target 'g.' has an empty property name",
+          ],
+          [
+            5,
+            "invalid-rule",
+            "switch rules select a case and cannot define 'source', 'sources' or 'constant'",
+          ],
+          [6, "invalid-rule", "'cases' must be an object of rules"],
+        ],
+      );
+    });
+
+    it("should load and serialize conditions and sub-rules", () => {
+      const registry = new TransformRegistry()
+        .register("isCrewed", () => (source: any) => source.mission.crewed)
+        .register("upper", () => (value: string) => value.toUpperCase());
+
+      const json = [
+        {
+          when: ["isCrewed"],
+          source: "crew[0].name",
+          target: "lead",
+          otherwise: { constant: "autopilot" },
+        },
+        {
+          when: "mission.crew > 0",
+          target: "vehicle",
+          switch: "mission.type",
+          cases: { crewed: { source: "mission.type", transform: ["upper"] } },
+        },
+      ];
+
+      const structure = loadStructure(json as any, registry);
+
+      assert.deepEqual(new Mapper(structure, { automap: false }).map(crewed), {
+        lead: "Sarah Chen",
+        vehicle: "CREWED",
+      });
+      assert.deepEqual(serializeStructure(structure), json);
+      assert.throws(
+        () =>
+          loadStructure(
+            [
+              {
+                target: "a",
+                switch: "type",
+                cases: { a: { constant: 1, transform: "nope" } },
+              },
+            ] as any,
+            registry,
+          ),
+        /case 'a': transform: Unknown function 'nope'/,
+      );
+    });
+  });
+});
@@ -0,0 +1,328 @@
+import { describe, it } from "mocha";
+import { strict as assert } from "assert";
+import { Mapper } from "../src/mapper.js";
+import { AsyncMapper } from "../src/async-mapper.js";
+import { WriteError } from "../src/errors.js";
+import { validateStructure } from "../src/structure.js";
+import { reverseStructure } from "../src/reverse.js";
+import { serializeStructure } from "../src/serialization.js";
+import { parseTargetTemplate } from "../src/mapper/targets.js";
+
+describe("Dynamic targets", () => {
+  const source = {
+    mission: { year: 2027, name: "Artemis III" },
+    crew: [
+      { id: "c1", name: "Sarah Chen", role: "commander" },
+      { id: "c.2", name: "Marcus Rodriguez", role: "pilot" },
+    ],
+  };
+
+  describe("Mapper", () => {
+    it("should resolve placeholders from the extracted value", () => {
+      const mapper = new Mapper(
+        [
+          { source: "crew[0]", target: "crewById.{id}" },
+          {
+            source: "crew[1]",
+            target: "crewById.{id}.name",
+            transform: (member) => member.name,
+          },
+        ],
+        { automap: false },
+      );
+
+      assert.deepEqual(mapper.map(source), {
+        crewById: {
+          c1: source.crew[0],
+          "c.2": { name: "Marcus Rodriguez" },
+        },
+      });
+    });
+
+    it("should resolve JSONPath placeholders from the source", () => {
+      const mapper = new Mapper(
+        [
+          { constant: 1, target: "stats.{$.mission.year}.launches" },
+          { source: "crew[0].role", target: "roles.{}.{$.crew[0].id}" },
+        ],
+        { automap: false },
+      );
+
+      assert.deepEqual(mapper.map(source), {
+        stats: { 2027: { launches: 1 } },
+        roles: { commander: { c1: "commander" } },
+      });
+    });
+
+    it("should compute targets with functions", () => {
+      const mapper = new Mapper(
+        [
+          {
+            source: "mission.name",
+            target: (name: string, root) => `missions.${root.mission.year}`,
+          },
+          { source: "crew[1]", target: (member) => ["crewById", member.id] },
+        ],
+        { automap: false },
+      );
+
+      assert.deepEqual(mapper.map(source), {
+        missions: { 2027: "Artemis III" },
+        crewById: { "c.2": source.crew[1] },
+      });
+    });
+
+    it("should resolve the templates of every target", () => {
+      const mapper = new Mapper(
+        [
+          {
+            source: "crew[0]",
+            target: {
+              "byId.{id}": (member) => member.name,
+              "byRole.{role}": null,
+            },
+          },
+        ],
+        { automap: false },
+      );
+
+      assert.deepEqual(mapper.map(source), {
+        byId: { c1: "Sarah Chen" },
+        byRole: { commander: source.crew[0] },
+      });
+    });
+
+    it("should read JSONPath placeholders from the source prefix in groups", () => {
+      const mapper = new Mapper(
+        [
+          {
+            sourcePrefix: "mission",
+            rules: [
+              {
+                source: "name",
+                target: "byYear.{$.year}",
+                when: "$.year == 2027",
+              },
+              { source: "name", target: ["all.{$.name}", "names.{}"] },
+            ],
+          },
+        ],
+        { automap: false },
+      );
+
+      assert.deepEqual(mapper.map({ ...source, year: 1969 }), {
+        byYear: { 2027: "Artemis III" },
+        all: { "Artemis III": "Artemis III" },
+        names: { "Artemis III": "Artemis III" },
+      });
+    });
+
+    it("should skip the value before resolving its target", () => {
+      const mapper = new Mapper([
+        { source: "crew[5]", target: "crewById.{id}" },
+      ]);
+
+      assert.equal(mapper.map(source).crewById, undefined);
+    });
+
+    it("should prefix dynamic targets in groups", () => {
+      const mapper = new Mapper(
+        [
+          {
+            sourcePrefix: "crew",
+            targetPrefix: "crew",
+            rules: [
+              { source: "[0]", target: "{id}.name" },
+              { source: "[1].name", target: (name: string) => [name] },
+            ],
+          },
+        ],
+        { automap: false },
+      );
+
+      assert.deepEqual(mapper.map(source), {
+        crew: {
+          c1: { name: source.crew[0] },
+          "Marcus Rodriguez": "Marcus Rodriguez",
+        },
+      });
+    });
+
+    it("should build lookups over the elements of wildcard and filter sources", () => {
+      const structure = [
+        { source: "crew[*]", target: "crewById.{id}" },
+        { source: "crew[*].role", target: "roles.{}" },
+        {
+          source: "crew[?(@.role == 'pilot')]",
+          target: "pilots.{id}",
+          transform: (pilots: any[]) => pilots.map((pilot) => pilot.name),
+        },
+        { source: "crew[*]", target: "byYear.{$.mission.year}" },
+      ];
+      const expected = {
+        crewById: { c1: source.crew[0], "c.2": source.crew[1] },
+        roles: { commander: "commander", pilot: "pilot" },
+        pilots: { "c.2": "Marcus Rodriguez" },
+        byYear: { 2027: source.crew },
+      };
+
+      assert.deepEqual(
+        new Mapper(structure, { automap: false }).map(source),
+        expected,
+      );
+      assert.deepEqual(
+        new Mapper(structure, { automap: false, compiled: true }).map(source),
+        expected,
+      );
+    });
+
+    it("should fail when the value no longer has one element per match", () => {
+      const mapper = new Mapper([
+        {
+          source: "crew[*]",
+          target: "crewById.{id}",
+          transform: (crew: any[]) => crew.length,
+        },
+      ]);
+
+      assert.throws(
+        () => mapper.map(source),
+        (error: WriteError) =>
+          error instanceof WriteError &&
+          error.target === "crewById.{id}" &&
+          /expected one value per element of 'crew\[\*\]'/.test(error.message),
+      );
+    });
+
+    it("should fail when a placeholder does not resolve to a key", () => {
+      const mapper = new Mapper([
+        { source: "crew[0]", target: "crewById.{badge}" },
+      ]);
+
+      assert.throws(
+        () => mapper.map(source),
+        (error: WriteError) =>
+          error instanceof WriteError &&
+          error.target === "crewById.{badge}" &&
+          /placeholder '\{badge\}' resolved to undefined/.test(error.message),
+      );
+    });
+
+    it("should fail when a target function returns no path", () => {
+      const mapper = new Mapper([
+        { source: "crew[0]", target: () => "" as string },
+      ]);
+
+      assert.throws(
+        () => mapper.map(source),
+        /target function must return a non-empty path or array of segments for rule with target '<function>'/,
+      );
+    });
+
+    it("should work in compiled mode", () => {
+      const structure = [
+        { source: "crew[1]", target: "crewById.{id}.role" },
+        { source: "crew[0].name", target: (name: string) => [name] },
+      ];
+      const options = { automap: false, compiled: true };
+
+      assert.deepEqual(new Mapper(structure, options).map(source), {
+        crewById: { "c.2": { role: source.crew[1] } },
+        "Sarah Chen": "Sarah Chen",
+      });
+    });
+  });
+
+  describe("AsyncMapper", () => {
+    it("should resolve templates and functions", async () => {
+      const mapper = new AsyncMapper(
+        [
+          {
+            source: "crew[0]",
+            target: "crewById.{id}",
+            transform: async (member) => member.name,
+          },
+          { constant: true, target: () => "ready" },
+        ],
+        { automap: false },
+      );
+
+      assert.deepEqual(await mapper.map(source), {
+        crewById: { c1: "Sarah Chen" },
+        ready: true,
+      });
+    });
+
+    it("should resolve templates for each element of wildcard sources", async () => {
+      const mapper = new AsyncMapper(
+        [
+          {
+            source: "crew[*]",
+            target: "namesById.{id}",
+            transform: async (crew: any[]) => crew.map((member) => member.name),
+          },
+        ],
+        { automap: false },
+      );
+
+      assert.deepEqual(await mapper.map(source), {
+        namesById: { c1: "Sarah Chen", "c.2": "Marcus Rodriguez" },
+      });
+    });
+  });
+
+  describe("parseTargetTemplate", () => {
+    it("should split templates into text and placeholders", () => {
+      assert.equal(parseTargetTemplate("crew.name"), null);
+      assert.deepEqual(parseTargetTemplate("crewById.{ id }.name"), [
+        "crewById.",
+        { placeholder: "id" },
+        ".name",
+      ]);
+      assert.throws(() => parseTargetTemplate("a.{id"), /unclosed '\{'/);
+      assert.throws(() => parseTargetTemplate("a.id}"), /unexpected '\}'/);
+    });
+  });
+
+  describe("structures", () => {
+    it("should validate templates and find their conflicts", () => {
+      const diagnostics = validateStructure([
+        { source: "crew[0]", target: "crewById.{id}" },
+        { source: "crew[1]", target: "crewById.{id}" },
+        { source: "crew[0]", target: "stats.{$.mission[}" },
+        { source: "crew[0]", target: (member: any) => member.id },
+      ]);
+
+      assert.deepEqual(
+        diagnostics.map((diagnostic) => [diagnostic.index, diagnostic.code]),
+        [
+          [1, "duplicate-target"],
+          [2, "invalid-target"],
+        ],
+      );
+      assert.match(
+        diagnostics[1]!.message,
+        /placeholder '\{\$\.mission\[\}' has an unclosed '\['/,
+      );
+    });
+
+    it("should not reverse or serialize dynamic targets", () => {
+      const structure = [
+        { source: "crew[0]", target: "crewById.{id}" },
+        { source: "crew[0]", target: (member: any) => member.id },
+      ];
+
+      assert.deepEqual(
+        reverseStructure(structure).skipped.map((issue) => issue.reason),
+        [
+          "dynamic targets cannot be inverted",
+          "dynamic targets cannot be inverted",
+        ],
+      );
+      assert.throws(
+        () => serializeStructure(structure),
+        /rule 1 \(target functions cannot be serialized\)/,
+      );
+    });
+  });
+});
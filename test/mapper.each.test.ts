@@ -0,0 +1,246 @@
+import { describe, it } from "mocha";
+import { strict as assert } from "assert";
+import { Mapper } from "../src/mapper.js";
+import { AsyncMapper } from "../src/async-mapper.js";
+import type { AsyncStructure, Structure } from "../src/types/mapper.js";
+
+describe("Per-element array mapping", () => {
+  const source = {
+    crew: [
+      { name: "Sarah Chen", role: "commander", experience: 2840 },
+      { name: "Marcus Rodriguez", role: "pilot", experience: 1650 },
+      null,
+    ],
+  };
+
+  describe("with Mapper", () => {
+    it("should map each element through a sub-structure", () => {
+      const structure: Structure = [
+        {
+          source: "crew[0:2]",
+          target: "members",
+          each: [
+            ["name", "fullName"],
+            ["role", "position"],
+          ],
+        },
+      ];
+
+      const result = new Mapper(structure).map(source);
+
+      assert.deepEqual(result, {
+        members: [
+          { fullName: "Sarah Chen", position: "commander" },
+          { fullName: "Marcus Rodriguez", position: "pilot" },
+        ],
+      });
+    });
+
+    it("should map each element through a reusable mapper", () => {
+      const memberMapper = new Mapper([["name", "fullName"]]);
+      const structure: Structure = [
+        { source: "crew[0:2]", target: "members", each: memberMapper },
+      ];
+
+      const result = new Mapper(structure).map(source);
+
+      assert.deepEqual(result, {
+        members: [{ fullName: "Sarah Chen" }, { fullName: "Marcus Rodriguez" }],
+      });
+    });
+
+    it("should keep null elements unless skipNull is enabled", () => {
+      const structure: Structure = [
+        { source: "crew", target: "members", each: [["role", "position"]] },
+      ];
+
+      const kept = new Mapper(structure).map(source);
+      const skipped = new Mapper(structure, { skipNull: true }).map(source);
+
+      assert.deepEqual(kept.members, [
+        { position: "commander" },
+        { position: "pilot" },
+        null,
+      ]);
+      assert.deepEqual(skipped.members, [
+        { position: "commander" },
+        { position: "pilot" },
+      ]);
+    });
+
+    it("should wrap a single match in an array", () => {
+      const structure: Structure = [
+        {
+          source: "crew[?(@ && @.role=='pilot')]",
+          target: "pilots",
+          each: [["name", "name"]],
+        },
+      ];
+
+      const result = new Mapper(structure).map(source);
+
+      assert.deepEqual(result, { pilots: [{ name: "Marcus Rodriguez" }] });
+    });
+
+    it("should map the default value when nothing matches", () => {
+      const structure: Structure = [
+        {
+          source: "passengers",
+          target: "members",
+          defaultValue: [],
+          each: [["name", "fullName"]],
+        },
+      ];
+
+      const result = new Mapper(structure).map(source);
+
+      assert.deepEqual(result, { members: [] });
+    });
+
+    it("should apply transform and failOn on the mapped array", () => {
+      const structure: Structure = [
+        {
+          source: "crew[0:2]",
+          target: "crewSize",
+          each: [["name", "name"]],
+          transform: (members) => members.length,
+          failOn: (size) => size > 2,
+        },
+      ];
+
+      const result = new Mapper(structure).map(source);
+
+      assert.deepEqual(result, { crewSize: 2 });
+    });
+
+    it("should report the element index in nested failures", () => {
+      const structure: Structure = [
+        {
+          source: "crew[0:2]",
+          target: "members",
+          each: [
+            {
+              source: "experience",
+              target: "experience",
+              failOn: (experience) => experience < 2000,
+            },
+          ],
+        },
+      ];
+
+      assert.throws(
+        () => new Mapper(structure).map(source),
+        /Mapping failed: condition failed for rule with target 'members\[1\]\.experience'/,
+      );
+    });
+  });
+
+  describe("with AsyncMapper", () => {
+    it("should map each element with async transforms", async () => {
+      const structure: AsyncStructure = [
+        {
+          source: "crew[0:2]",
+          target: "members",
+          each: [
+            {
+              source: "name",
+              target: "fullName",
+              transform: async (name: string) => name.toUpperCase(),
+            },
+          ],
+        },
+      ];
+
+      const result = await new AsyncMapper(structure).map(source);
+
+      assert.deepEqual(result, {
+        members: [{ fullName: "SARAH CHEN" }, { fullName: "MARCUS RODRIGUEZ" }],
+      });
+    });
+
+    it("should keep element order when mapping in parallel", async () => {
+      const structure: AsyncStructure = [
+        {
+          source: "crew[0:2]",
+          target: "members",
+          each: [
+            {
+              source: "experience",
+              target: "experience",
+              transform: async (experience: number) => {
+                await new Promise((resolve) =>
+                  setTimeout(resolve, experience / 100),
+                );
+                return experience;
+              },
+            },
+          ],
+        },
+      ];
+
+      const result = await new AsyncMapper(structure, {
+        parallelRun: true,
+      }).map(source);
+
+      assert.deepEqual(result.members, [
+        { experience: 2840 },
+        { experience: 1650 },
+      ]);
+    });
+
+    it("should honor parallelJobsLimit across elements", async () => {
+      let running = 0;
+      let maxRunning = 0;
+
+      const structure: AsyncStructure = [
+        {
+          source: "items",
+          target: "items",
+          each: [
+            {
+              source: "id",
+              target: "id",
+              transform: async (id: number) => {
+                running++;
+                maxRunning = Math.max(maxRunning, running);
+                await new Promise((resolve) => setTimeout(resolve, 10));
+                running--;
+                return id;
+              },
+            },
+          ],
+        },
+      ];
+
+      const items = Array.from({ length: 6 }, (_, id) => ({ id }));
+      const result = await new AsyncMapper(structure, {
+        parallelRun: true,
+        parallelJobsLimit: 2,
+      }).map({ items });
+
+      assert.deepEqual(result.items, items);
+      assert.equal(maxRunning, 2);
+    });
+
+    it("should report the element index in async failures", async () => {
+      const structure: AsyncStructure = [
+        {
+          source: "crew[0:2]",
+          target: "members",
+          each: [
+            {
+              source: "role",
+              target: "role",
+              failOn: async (role: string) => role === "pilot",
+            },
+          ],
+        },
+      ];
+
+      await assert.rejects(
+        () => new AsyncMapper(structure, { parallelRun: true }).map(source),
+        /Mapping failed: condition failed for rule with target 'members\[1\]\.role'/,
+      );
+    });
+  });
+});
@@ -0,0 +1,196 @@
+import { describe, it } from "mocha";
+import { strict as assert } from "assert";
+import { Mapper } from "../src/mapper.js";
+import { AsyncMapper } from "../src/async-mapper.js";
+import {
+  ExtractionError,
+  FailOnError,
+  FilterError,
+  MappingError,
+  TransformError,
+  WriteError,
+} from "../src/errors.js";
+
+describe("Mapping errors", () => {
+  const source = {
+    mission: { name: "Artemis III", fuel: 0 },
+    crew: [{ name: "Sarah Chen" }, { name: "Marcus Rodriguez" }],
+  };
+
+  const catchError = (fn: () => unknown): MappingError => {
+    try {
+      fn();
+    } catch (error) {
+      assert.ok(error instanceof MappingError);
+      return error;
+    }
+    assert.fail("Expected a MappingError");
+  };
+
+  it("should throw a FailOnError with the rule context", () => {
+    const structure = [
+      ["mission.name", "title"] as [string, string],
+      { source: "mission.fuel", target: "fuel", failOn: (v: number) => !v },
+    ];
+
+    const error = catchError(() => new Mapper(structure).map(source));
+
+    assert.ok(error instanceof FailOnError);
+    assert.equal(error.name, "FailOnError");
+    assert.equal(error.phase, "failOn");
+    assert.equal(error.rule, structure[1]);
+    assert.equal(error.index, 1);
+    assert.equal(error.source, "$.mission.fuel");
+    assert.equal(error.target, "fuel");
+    assert.equal(error.value, 0);
+    assert.equal(
+      error.message,
+      "Mapping failed: condition failed for rule with target 'fuel'",
+    );
+  });
+
+  it("should wrap errors thrown by a transform", () => {
+    const cause = new Error("invalid date");
+    const mapper = new Mapper([
+      {
+        source: "mission.name",
+        target: "launch.date",
+        transform: () => {
+          throw cause;
+        },
+      },
+    ]);
+
+    const error = catchError(() => mapper.map(source));
+
+    assert.ok(error instanceof TransformError);
+    assert.equal(error.cause, cause);
+    assert.equal(error.value, "Artemis III");
+    assert.equal(error.index, 0);
+    assert.equal(
+      error.message,
+      "Mapping failed: transform threw: invalid date for rule with target 'launch.date'",
+    );
+  });
+
+  it("should wrap errors thrown by a filter and a failOn", () => {
+    const throwing = () => {
+      throw new Error("boom");
+    };
+
+    assert.ok(
+      catchError(() =>
+        new Mapper([
+          { source: "mission.name", target: "name", filter: throwing },
+        ]).map(source),
+      ) instanceof FilterError,
+    );
+
+    const failOn = catchError(() =>
+      new Mapper([
+        { source: "mission.name", target: "name", failOn: throwing },
+      ]).map(source),
+    );
+    assert.ok(failOn instanceof FailOnError);
+    assert.match(failOn.message, /failOn threw: boom/);
+  });
+
+  it("should throw an ExtractionError for invalid JSONPath", () => {
+    const error = catchError(() =>
+      new Mapper([["$.mission[?(@.fuel <)]", "broken"]]).map(source),
+    );
+
+    assert.ok(error instanceof ExtractionError);
+    assert.equal(error.phase, "extract");
+    assert.equal(error.source, "$.mission[?(@.fuel <)]");
+    assert.equal(error.target, "broken");
+    assert.ok(error.cause instanceof Error);
+    assert.match(error.message, /Failed to extract data using JSONPath/);
+  });
+
+  it("should throw a WriteError when the target cannot be written", () => {
+    const error = catchError(() =>
+      new Mapper([["mission.name", ""]]).map(source),
+    );
+
+    assert.ok(error instanceof WriteError);
+    assert.match(error.message, /cannot write value: Path cannot be empty/);
+  });
+
+  it("should throw a MappingError for invalid rules", () => {
+    const error = catchError(() =>
+      new Mapper([{ target: "name" } as any]).map(source),
+    );
+
+    assert.equal(error.constructor, MappingError);
+    assert.equal(error.phase, "rule");
+  });
+
+  it("should keep the context of nested rules", () => {
+    const mapper = new Mapper([
+      ["mission.name", "title"],
+      {
+        source: "crew",
+        target: "members",
+        each: [
+          {
+            source: "name",
+            target: "initials",
+            transform: (name: string) => {
+              if (name.startsWith("M")) {
+                throw new Error("unsupported name");
+              }
+              return name[0];
+            },
+          },
+        ],
+      },
+    ]);
+
+    const error = catchError(() => mapper.map(source));
+
+    assert.ok(error instanceof TransformError);
+    assert.equal(error.target, "members[1].initials");
+    assert.equal(error.source, "$.name");
+    assert.equal(error.index, 1);
+    assert.equal(error.value, "Marcus Rodriguez");
+  });
+
+  it("should wrap failures of async functions", async () => {
+    const mapper = new AsyncMapper([
+      {
+        source: "mission.name",
+        target: "title",
+        transform: async () => {
+          throw new Error("service unavailable");
+        },
+      },
+    ]);
+
+    await assert.rejects(
+      () => mapper.map(source),
+      (error: unknown) => {
+        assert.ok(error instanceof TransformError);
+        assert.equal(error.target, "title");
+        assert.match(error.message, /transform threw: service unavailable/);
+        return true;
+      },
+    );
+  });
+
+  it("should throw an ExtractionError from extractData", () => {
+    class InspectableMapper extends Mapper {
+      extract(jsonPath: string) {
+        return this.extractData(source, jsonPath);
+      }
+    }
+
+    assert.throws(
+      () => new InspectableMapper([]).extract("$.mission[?(@.fuel <)]"),
+      (error: unknown) =>
+        error instanceof ExtractionError &&
+        error.source === "$.mission[?(@.fuel <)]" &&
+        error.target === undefined,
+    );
+  });
+});
@@ -1,6 +1,8 @@
 import { describe, it } from "mocha";
 import { strict as assert } from "assert";
 import { Mapper, mapObject } from "../src/mapper.js";
+import { AsyncMapper } from "../src/async-mapper.js";
+import { FailOnError } from "../src/errors.js";
 import type { Structure } from "../src/types/mapper.js";
 
 describe("Mapper failOn functionality", () => {
@@ -287,4 +289,142 @@ describe("Mapper failOn functionality", () => {
       assert.throws(() => mapper.map(source), /Custom failOn error/);
     });
   });
+
+  describe("failOn custom messages and codes", () => {
+    const source = { mission: "Artemis III", fuel: 12 };
+
+    const catchFailOn = (fn: () => unknown): FailOnError => {
+      try {
+        fn();
+      } catch (error) {
+        assert.ok(error instanceof FailOnError);
+        return error;
+      }
+      assert.fail("Expected a FailOnError");
+    };
+
+    it("should use the message returned by failOn", () => {
+      const error = catchFailOn(() =>
+        mapObject(
+          [
+            {
+              source: "fuel",
+              target: "fuel",
+              failOn: (fuel) => fuel < 20 && "Not enough fuel to launch",
+            },
+          ],
+          source,
+        ),
+      );
+
+      assert.equal(error.reason, "Not enough fuel to launch");
+      assert.equal(error.code, undefined);
+      assert.equal(
+        error.message,
+        "Mapping failed: Not enough fuel to launch for rule with target 'fuel'",
+      );
+    });
+
+    it("should use the code and message of a returned object", () => {
+      const error = catchFailOn(() =>
+        mapObject(
+          [
+            {
+              source: "fuel",
+              target: "fuel",
+              failOn: (fuel) =>
+                fuel < 20 && { code: "LOW_FUEL", message: "Refuel first" },
+            },
+          ],
+          source,
+        ),
+      );
+
+      assert.equal(error.code, "LOW_FUEL");
+      assert.equal(error.reason, "Refuel first");
+      assert.equal(error.value, 12);
+    });
+
+    it("should fall back to failMessage and failCode of the rule", () => {
+      const structure: Structure = [
+        {
+          source: "fuel",
+          target: "fuel",
+          failOn: (fuel) => fuel < 20,
+          failMessage: "Fuel level too low",
+          failCode: "LOW_FUEL",
+        },
+      ];
+
+      const error = catchFailOn(() => mapObject(structure, source));
+
+      assert.equal(error.code, "LOW_FUEL");
+      assert.equal(error.reason, "Fuel level too low");
+    });
+
+    it("should prefer the returned values over the rule ones", () => {
+      const error = catchFailOn(() =>
+        mapObject(
+          [
+            {
+              source: "fuel",
+              target: "fuel",
+              failOn: () => ({ code: "EMPTY_TANK" }),
+              failMessage: "Fuel level too low",
+              failCode: "LOW_FUEL",
+            },
+          ],
+          source,
+        ),
+      );
+
+      assert.equal(error.code, "EMPTY_TANK");
+      assert.equal(error.reason, "Fuel level too low");
+    });
+
+    it("should keep the default message", () => {
+      const error = catchFailOn(() =>
+        mapObject(
+          [{ source: "fuel", target: "fuel", failOn: () => true }],
+          source,
+        ),
+      );
+
+      assert.equal(error.reason, "condition failed");
+      assert.equal(error.code, undefined);
+    });
+
+    it("should not fail on falsy results", () => {
+      const result = mapObject(
+        [
+          { source: "fuel", target: "fuel", failOn: () => "" },
+          { source: "mission", target: "name", failOn: () => null },
+        ],
+        source,
+      );
+
+      assert.deepEqual(result, { fuel: 12, name: "Artemis III" });
+    });
+
+    it("should support async failOn results", async () => {
+      const mapper = new AsyncMapper([
+        {
+          source: "fuel",
+          target: "fuel",
+          failOn: async (fuel: number) =>
+            fuel < 20 && { code: "LOW_FUEL", message: "Refuel first" },
+        },
+      ]);
+
+      await assert.rejects(
+        () => mapper.map(source),
+        (error: unknown) => {
+          assert.ok(error instanceof FailOnError);
+          assert.equal(error.code, "LOW_FUEL");
+          assert.equal(error.reason, "Refuel first");
+          return true;
+        },
+      );
+    });
+  });
 });
@@ -0,0 +1,391 @@
+import { describe, it } from "mocha";
+import { strict as assert } from "assert";
+import { Mapper } from "../src/mapper.js";
+import { AsyncMapper } from "../src/async-mapper.js";
+import { MappingError } from "../src/errors.js";
+import { validateStructure } from "../src/structure.js";
+import { reverseStructure } from "../src/reverse.js";
+import { TransformRegistry } from "../src/registry.js";
+import { loadStructure, serializeStructure } from "../src/serialization.js";
+import { joinJsonPath, joinOutPath } from "../src/mapper/groups.js";
+import type { Structure } from "../src/types/mapper.js";
+
+describe("Rule groups", () => {
+  const source = {
+    spacecraft: {
+      name: "Orion",
+      systems: {
+        propulsion: {
+          engine: "AJ10",
+          fuel: { level: 87, unit: "%" },
+          thrusters: [{ id: "T1" }, { id: "T2" }],
+          status: "nominal",
+        },
+        power: { battery: null, solar: 12.5 },
+      },
+    },
+  };
+
+  describe("Mapper", () => {
+    it("should resolve the paths of the rules against the prefixes", () => {
+      const mapper = new Mapper(
+        [
+          {
+            sourcePrefix: "spacecraft.systems.propulsion",
+            targetPrefix: "propulsion",
+            rules: [
+              ["engine", "engine"],
+              ["$.fuel.level", "fuel"],
+              ["thrusters[1].id", "thrusters[0]"],
+              { constant: true, target: "checked" },
+            ],
+          },
+        ],
+        { automap: false },
+      );
+
+      assert.deepEqual(mapper.map(source), {
+        propulsion: {
+          engine: "AJ10",
+          fuel: 87,
+          thrusters: ["T2"],
+          checked: true,
+        },
+      });
+    });
+
+    it("should default to the root and the target itself", () => {
+      const mapper = new Mapper(
+        [
+          { targetPrefix: "craft", rules: [["spacecraft.name", "name"]] },
+          { sourcePrefix: "$.spacecraft", rules: [["name", "name"]] },
+        ],
+        { automap: false },
+      );
+
+      assert.deepEqual(mapper.map(source), {
+        craft: { name: "Orion" },
+        name: "Orion",
+      });
+    });
+
+    it("should scope multi-source, multi-target and conditional rules", () => {
+      const mapper = new Mapper(
+        [
+          {
+            sourcePrefix: "spacecraft.systems.propulsion",
+            targetPrefix: "propulsion",
+            rules: [
+              {
+                sources: ["fuel.level", "fuel.unit"],
+                target: ["fuel", "summary.fuel"],
+                transform: ([level, unit]) => `${level}${unit}`,
+              },
+              {
+                when: "status == 'nominal'",
+                constant: "go",
+                target: "decision",
+                otherwise: { constant: "hold" },
+              },
+              {
+                switch: "engine",
+                target: "type",
+                cases: { AJ10: { constant: "hypergolic" } },
+              },
+            ],
+          },
+        ],
+        { automap: false },
+      );
+
+      assert.deepEqual(mapper.map(source), {
+        propulsion: {
+          fuel: "87%",
+          summary: { fuel: "87%" },
+          decision: "go",
+          type: "hypergolic",
+        },
+      });
+    });
+
+    it("should nest groups", () => {
+      const mapper = new Mapper(
+        [
+          {
+            sourcePrefix: "spacecraft",
+            targetPrefix: "craft",
+            rules: [
+              ["name", "name"],
+              {
+                sourcePrefix: "systems.power",
+                targetPrefix: "power",
+                rules: [["solar", "solar"]],
+              },
+            ],
+          },
+        ],
+        { automap: false },
+      );
+
+      assert.deepEqual(mapper.map(source), {
+        craft: { name: "Orion", power: { solar: 12.5 } },
+      });
+    });
+
+    it("should skip every rule when the filter rejects the group", () => {
+      const filtered: any[] = [];
+      const structure: Structure = [
+        {
+          sourcePrefix: "spacecraft.systems.propulsion",
+          targetPrefix: "propulsion",
+          filter: (propulsion, root) => {
+            filtered.push(propulsion, root);
+            return propulsion.status !== "nominal";
+          },
+          rules: [["engine", "engine"]],
+        },
+        ["spacecraft.name", "name"],
+      ];
+
+      const result = new Mapper(structure, { automap: false }).map(source);
+
+      assert.deepEqual(result, { name: "Orion" });
+      assert.equal(filtered[0], source.spacecraft.systems.propulsion);
+      assert.equal(filtered[1], source);
+    });
+
+    it("should override the options for the rules of the group", () => {
+      const mapper = new Mapper(
+        [
+          {
+            sourcePrefix: "spacecraft.systems.power",
+            targetPrefix: "power",
+            options: { skipNull: true },
+            rules: [["battery", "battery"]],
+          },
+          ["spacecraft.systems.power.battery", "battery"],
+        ],
+        { automap: false },
+      );
+
+      assert.deepEqual(mapper.map(source), { battery: null });
+    });
+
+    it("should report failures with the scoped paths", () => {
+      const mapper = new Mapper([
+        {
+          sourcePrefix: "spacecraft",
+          targetPrefix: "craft",
+          rules: [{ source: "missing", target: "value", required: true }],
+        },
+      ]);
+
+      assert.throws(
+        () => mapper.map(source),
+        (error: MappingError) =>
+          error.target === "craft.value" &&
+          error.source === "$.spacecraft.missing",
+      );
+    });
+
+    it("should report filter failures with the prefixes of the group", () => {
+      const mapper = new Mapper([
+        {
+          sourcePrefix: "spacecraft",
+          targetPrefix: "craft",
+          filter: () => {
+            throw new Error("no telemetry");
+          },
+          rules: [["name", "name"]],
+        },
+      ]);
+
+      assert.throws(
+        () => mapper.map(source),
+        /Mapping failed: filter threw: no telemetry for rule with target 'craft'/,
+      );
+    });
+
+    it("should map groups of nested structures and compiled mappers", () => {
+      const structure: Structure = [
+        {
+          source: "spacecraft",
+          target: "craft",
+          mapper: [
+            {
+              sourcePrefix: "systems.propulsion",
+              targetPrefix: "propulsion",
+              rules: [["fuel.level", "fuel"]],
+            },
+          ],
+        },
+      ];
+
+      const expected = { craft: { propulsion: { fuel: 87 } } };
+
+      assert.deepEqual(
+        new Mapper(structure, { automap: false }).map(source),
+        expected,
+      );
+      assert.deepEqual(
+        new Mapper(structure, { automap: false, compiled: true }).map(source),
+        expected,
+      );
+    });
+  });
+
+  describe("AsyncMapper", () => {
+    it("should filter, scope and override options like Mapper", async () => {
+      const mapper = new AsyncMapper(
+        [
+          {
+            sourcePrefix: "spacecraft.systems",
+            targetPrefix: "systems",
+            filter: async (systems) => systems.power.solar > 10,
+            options: { skipNull: true, parallelRun: true },
+            rules: [
+              {
+                source: "propulsion.engine",
+                target: "engine",
+                transform: async (engine: string) => engine.toLowerCase(),
+              },
+              ["power.battery", "battery"],
+            ],
+          },
+          {
+            targetPrefix: "skipped",
+            filter: async () => false,
+            rules: [["spacecraft.name", "name"]],
+          },
+        ],
+        { automap: false },
+      );
+
+      assert.deepEqual(await mapper.map(source), {
+        systems: { engine: "aj10" },
+      });
+    });
+  });
+
+  describe("paths", () => {
+    it("should join relative JSONPaths to the prefix", () => {
+      assert.equal(joinJsonPath("a.b", "c"), "a.b.c");
+      assert.equal(joinJsonPath("$.a", "$.c"), "$.a.c");
+      assert.equal(joinJsonPath("$.a", "$['c.d']"), "$.a['c.d']");
+      assert.equal(joinJsonPath("$.a", "[0].c"), "$.a[0].c");
+      assert.equal(joinJsonPath("$.a", "$..c"), "$.a..c");
+      assert.equal(joinJsonPath("$.a", "$"), "$.a");
+      assert.equal(joinJsonPath(undefined, "c"), "c");
+    });
+
+    it("should join relative outpaths to the prefix", () => {
+      assert.equal(joinOutPath("a", "b.c"), "a.b.c");
+      assert.equal(joinOutPath("a", "[1]"), "a[1]");
+      assert.equal(joinOutPath("a", ""), "a");
+      assert.equal(joinOutPath(undefined, "b"), "b");
+    });
+  });
+
+  describe("validateStructure", () => {
+    it("should validate the rules of the group", () => {
+      const diagnostics = validateStructure([
+        {
+          sourcePrefix: "spacecraft[",
+          targetPrefix: "craft",
+          rules: [["name", ""], { source: "name" } as any],
+          options: "strict" as any,
+          extra: true,
+        } as any,
+      ]);
+
+      assert.deepEqual(
+        diagnostics.map((diagnostic) => diagnostic.message),
+        [
+          "unknown group property 'extra'",
+          "sourcePrefix 'spacecraft[' has an unclosed '[' at character 10",
+          "'options' must be an object of mapper options",
+          "group rule 0: 'target' cannot be empty",
+          "group rule 1: 'target' must be a string, a non-empty array of strings or an object of paths to transforms",
+        ],
+      );
+    });
+
+    it("should find conflicts between prefixed targets", () => {
+      const diagnostics = validateStructure([
+        ["name", "craft.name"],
+        { targetPrefix: "craft", rules: [["title", "name"]] },
+      ]);
+
+      assert.equal(diagnostics.length, 1);
+      assert.equal(diagnostics[0]!.code, "duplicate-target");
+      assert.equal(diagnostics[0]!.index, 1);
+    });
+  });
+
+  describe("serialization", () => {
+    it("should load and serialize the filter and the rules of the group", () => {
+      const registry = new TransformRegistry()
+        .register("nominal", () => (value: any) => value.status === "nominal")
+        .register("lower", () => (value: string) => value.toLowerCase());
+
+      const json = [
+        {
+          sourcePrefix: "spacecraft.systems.propulsion",
+          targetPrefix: "propulsion",
+          filter: ["nominal"],
+          rules: [{ source: "engine", target: "engine", transform: ["lower"] }],
+        },
+      ];
+
+      const structure = loadStructure(json as any, registry);
+
+      assert.deepEqual(new Mapper(structure, { automap: false }).map(source), {
+        propulsion: { engine: "aj10" },
+      });
+      assert.deepEqual(serializeStructure(structure), json);
+      assert.throws(
+        () =>
+          loadStructure(
+            [{ rules: [{ source: "a", target: "a", filter: "nope" }] }] as any,
+            registry,
+          ),
+        /group rule 0: filter: Unknown function 'nope'/,
+      );
+    });
+  });
+
+  describe("reverseStructure", () => {
+    it("should swap the prefixes and invert the rules", () => {
+      const result = reverseStructure([
+        {
+          sourcePrefix: "spacecraft.systems",
+          targetPrefix: "systems",
+          rules: [["propulsion.engine", "engine"]],
+        },
+      ]);
+
+      assert.deepEqual(result.structure, [
+        {
+          sourcePrefix: "$.systems",
+          targetPrefix: "spacecraft.systems",
+          rules: [["$.engine", "propulsion.engine"]],
+        },
+      ]);
+
+      const mapper = new Mapper(result.structure, { automap: false });
+      assert.deepEqual(mapper.map({ systems: { engine: "AJ10" } }), {
+        spacecraft: { systems: { propulsion: { engine: "AJ10" } } },
+      });
+    });
+
+    it("should not invert filtered groups or groups of constants", () => {
+      const result = reverseStructure([
+        { filter: () => true, rules: [["name", "name"]] },
+        { rules: [{ constant: 1, target: "version" }] },
+      ]);
+
+      assert.match(result.skipped[0]!.reason, /group filters/);
+      assert.match(result.skipped[1]!.reason, /group rule 0 \(constant/);
+    });
+  });
+});
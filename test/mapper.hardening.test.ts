@@ -0,0 +1,252 @@
+import { afterEach, describe, it } from "mocha";
+import { strict as assert } from "assert";
+import { Mapper } from "../src/mapper.js";
+import { AsyncMapper } from "../src/async-mapper.js";
+import {
+  MappingAggregateError,
+  UnsafeKeyError,
+  WriteError,
+} from "../src/errors.js";
+import { validateStructure } from "../src/structure.js";
+import { findUnsafeKey } from "../src/mapper/unsafe-keys.js";
+import type { Structure } from "../src/types/mapper.js";
+
+describe("Prototype pollution hardening", () => {
+  const payload = JSON.parse(
+    '{ "name": "Orion", "id": "__proto__", "__proto__": { "isAdmin": true }, "constructor": { "prototype": { "isAdmin": true } } }',
+  );
+
+  const isUnsafeKeyError =
+    (key: string, target: string) => (error: UnsafeKeyError) =>
+      error instanceof UnsafeKeyError &&
+      error instanceof WriteError &&
+      error.phase === "write" &&
+      error.key === key &&
+      error.target === target;
+
+  afterEach(() => {
+    assert.equal(({} as any).isAdmin, undefined);
+    assert.equal((Object.prototype as any).isAdmin, undefined);
+  });
+
+  describe("target paths", () => {
+    const attacks: [string, Structure[number], string, string][] = [
+      [
+        "static paths",
+        ["name", "__proto__.isAdmin"],
+        "__proto__",
+        "__proto__.isAdmin",
+      ],
+      [
+        "constructor paths",
+        { constant: true, target: "constructor.prototype.isAdmin" },
+        "constructor",
+        "constructor.prototype.isAdmin",
+      ],
+      [
+        "placeholders",
+        { constant: true, target: "users.{$.id}.isAdmin" },
+        "__proto__",
+        "users.__proto__.isAdmin",
+      ],
+      [
+        "target functions",
+        { constant: true, target: () => ["__proto__", "isAdmin"] },
+        "__proto__",
+        "__proto__.isAdmin",
+      ],
+      [
+        "wildcards",
+        { constant: [true], target: "items[*].__proto__.isAdmin" },
+        "__proto__",
+        "items[*].__proto__.isAdmin",
+      ],
+      [
+        "array markers",
+        { constant: true, target: "prototype[+]" },
+        "prototype",
+        "prototype[+]",
+      ],
+      [
+        "group prefixes",
+        {
+          targetPrefix: "__proto__",
+          rules: [{ constant: true, target: "isAdmin" }],
+        },
+        "__proto__",
+        "__proto__.isAdmin",
+      ],
+    ];
+
+    for (const [label, rule, key, target] of attacks) {
+      it(`should reject ${label}`, () => {
+        const structure = [rule];
+
+        assert.throws(
+          () => new Mapper(structure, { automap: false }).map(payload),
+          isUnsafeKeyError(key, target),
+        );
+        assert.throws(
+          () =>
+            new Mapper(structure, { automap: false, compiled: true }).map(
+              payload,
+            ),
+          isUnsafeKeyError(key, target),
+        );
+      });
+    }
+
+    it("should reject unsafe keys of nested structures with their full path", () => {
+      const mapper = new Mapper(
+        [{ source: "$", target: "profile", mapper: [["name", "__proto__"]] }],
+        { automap: false },
+      );
+
+      assert.throws(
+        () => mapper.map(payload),
+        isUnsafeKeyError("__proto__", "profile.__proto__"),
+      );
+    });
+
+    it("should allow escaped keys and keys containing unsafe words", () => {
+      const mapper = new Mapper(
+        [
+          ["name", "a\\.__proto__"],
+          ["name", "__proto__x.constructors"],
+        ],
+        { automap: false },
+      );
+
+      assert.deepEqual(mapper.map(payload), {
+        "a.__proto__": "Orion",
+        __proto__x: { constructors: "Orion" },
+      });
+    });
+
+    it("should collect unsafe key errors with the other failures", () => {
+      const mapper = new Mapper(
+        [
+          ["name", "name"],
+          ["name", "__proto__.isAdmin"],
+        ],
+        { automap: false, collectErrors: true },
+      );
+
+      assert.throws(
+        () => mapper.map(payload),
+        (error: MappingAggregateError) =>
+          error.errors.length === 1 &&
+          error.errors[0] instanceof UnsafeKeyError &&
+          error.errors[0].index === 1 &&
+          error.target.name === "Orion",
+      );
+    });
+
+    it("should reject unsafe keys in AsyncMapper", async () => {
+      const mapper = new AsyncMapper(
+        [{ source: "id", target: (id: string) => [id, "isAdmin"] }],
+        { automap: false, parallelRun: true },
+      );
+
+      await assert.rejects(
+        mapper.map(payload),
+        isUnsafeKeyError("__proto__", "__proto__.isAdmin"),
+      );
+    });
+
+    it("should reject unsafe keys of multi-source rules", () => {
+      const structure = JSON.parse(
+        '[{ "sources": { "name": "name", "__proto__": "__proto__" }, "target": "user", "transform": null }]',
+      );
+      structure[0].transform = (user: any) => user;
+      const mapper = new Mapper(structure, { automap: false });
+
+      assert.throws(
+        () => mapper.map(payload),
+        (error: UnsafeKeyError) =>
+          error instanceof UnsafeKeyError &&
+          error.key === "__proto__" &&
+          error.target === "user" &&
+          /'__proto__' is not allowed in sources keys/.test(error.message),
+      );
+    });
+
+    it("should leave unsafe keys to dot-prop when hardening is disabled", () => {
+      const mapper = new Mapper([["name", "__proto__.isAdmin"]], {
+        automap: false,
+        hardened: false,
+      });
+
+      assert.deepEqual(mapper.map(payload), {});
+    });
+  });
+
+  describe("merged keys", () => {
+    it("should skip unsafe keys when automapping", () => {
+      const target = JSON.parse(
+        '{ "name": "", "__proto__": {}, "constructor": {} }',
+      );
+
+      const result = new Mapper([]).map(payload, target);
+
+      assert.equal(result.name, "Orion");
+      assert.deepEqual(result.__proto__, {});
+      assert.deepEqual(result.constructor, {});
+      assert.equal(Object.getPrototypeOf(result), Object.prototype);
+    });
+
+    it("should skip unsafe keys of deeply merged values", () => {
+      const mapper = new Mapper(
+        [{ source: "$", target: "profile", write: "deepMerge" }],
+        { automap: false },
+      );
+
+      const result = mapper.map(payload, { profile: { role: "pilot" } });
+
+      assert.equal(result.profile.name, "Orion");
+      assert.equal(result.profile.role, "pilot");
+      assert.equal(result.profile.isAdmin, undefined);
+      assert.equal(Object.getPrototypeOf(result.profile), Object.prototype);
+      assert.equal(Object.keys(result.profile).includes("constructor"), false);
+    });
+  });
+
+  describe("structures", () => {
+    it("should report unsafe keys in targets and prefixes", () => {
+      const diagnostics = validateStructure([
+        ["name", "user.__proto__.isAdmin"],
+        ["name", "user\\.__proto__"],
+        { targetPrefix: "constructor", rules: [["name", "name"]] },
+      ]);
+
+      assert.deepEqual(
+        diagnostics.map((diagnostic) => [diagnostic.index, diagnostic.message]),
+        [
+          [0, "target 'user.__proto__.isAdmin' has the unsafe key '__proto__'"],
+          [2, "target 'constructor' has the unsafe key 'constructor'"],
+        ],
+      );
+    });
+
+    it("should report unsafe keys of sources", () => {
+      const diagnostics = validateStructure(
+        JSON.parse(
+          '[{ "sources": { "name": "name", "__proto__": "id" }, "target": "user" }]',
+        ),
+      );
+
+      assert.deepEqual(
+        diagnostics.map((diagnostic) => [diagnostic.code, diagnostic.message]),
+        [["invalid-source", "'sources' has the unsafe key '__proto__'"]],
+      );
+    });
+
+    it("should find unsafe keys in paths", () => {
+      assert.equal(findUnsafeKey("a.b[0].c"), null);
+      assert.equal(findUnsafeKey("a\\.__proto__"), null);
+      assert.equal(findUnsafeKey("a.prototype"), "prototype");
+      assert.equal(findUnsafeKey("a[*].constructor.b"), "constructor");
+      assert.equal(findUnsafeKey("__proto__[]"), "__proto__");
+    });
+  });
+});
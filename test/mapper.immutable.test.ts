@@ -0,0 +1,221 @@
+import { describe, it } from "mocha";
+import { strict as assert } from "assert";
+import { Mapper } from "../src/mapper.js";
+import { AsyncMapper } from "../src/async-mapper.js";
+import { AutomapArrayStrategy } from "../src/types/automapper.js";
+import { detachPath, shallowCopy } from "../src/mapper/immutable.js";
+
+// frozen objects throw on writes in strict mode, so any mutation fails the test
+function deepFreeze<T>(value: T): T {
+  if (typeof value === "object" && value !== null) {
+    Object.values(value).forEach(deepFreeze);
+    Object.freeze(value);
+  }
+
+  return value;
+}
+
+describe("Immutable mapping", () => {
+  const source = {
+    name: "Orion",
+    status: "docked",
+    fuel: 87,
+    crew: ["Sarah Chen", "Marcus Rodriguez"],
+  };
+
+  const state = () =>
+    deepFreeze({
+      name: "Apollo",
+      status: "launched",
+      systems: {
+        propulsion: { fuel: 40, engine: "AJ10" },
+        power: { solar: 12.5 },
+      },
+      crew: ["Elena Petrova"],
+    });
+
+  describe("Mapper", () => {
+    it("should return a new target sharing the untouched objects", () => {
+      const target = state();
+      const mapper = new Mapper([["fuel", "systems.propulsion.fuel"]], {
+        automap: false,
+        immutable: true,
+      });
+
+      const result = mapper.map(source, target);
+
+      assert.notEqual(result, target);
+      assert.notEqual(result.systems, target.systems);
+      assert.notEqual(result.systems.propulsion, target.systems.propulsion);
+      assert.equal(result.systems.power, target.systems.power);
+      assert.equal(result.crew, target.crew);
+      assert.deepEqual(result.systems.propulsion, { fuel: 87, engine: "AJ10" });
+      assert.equal(target.systems.propulsion.fuel, 40);
+    });
+
+    it("should not modify the target during automapping", () => {
+      const target = state();
+      const mapper = new Mapper([], {
+        immutable: true,
+        automapArrayStrategy: AutomapArrayStrategy.Concatenate,
+      });
+
+      const result = mapper.map(source, target);
+
+      assert.equal(result.name, "Orion");
+      assert.deepEqual(result.crew, [
+        "Elena Petrova",
+        "Sarah Chen",
+        "Marcus Rodriguez",
+      ]);
+      assert.equal(result.systems, target.systems);
+      assert.equal(target.name, "Apollo");
+    });
+
+    it("should copy arrays before adding or writing their elements", () => {
+      const target = state();
+      const mapper = new Mapper(
+        [
+          ["crew[0]", "crew[+]"],
+          ["crew[1]", "systems.names[*]"],
+          ["crew[0]", "crew[0]"],
+        ],
+        { automap: false, immutable: true },
+      );
+
+      const result = mapper.map(source, target);
+
+      assert.deepEqual(result.crew, ["Sarah Chen", "Sarah Chen"]);
+      assert.deepEqual(result.systems.names, ["Marcus Rodriguez"]);
+      assert.deepEqual(target.crew, ["Elena Petrova"]);
+    });
+
+    it("should merge without modifying the target", () => {
+      const target = state();
+      const mapper = new Mapper(
+        [
+          {
+            constant: { propulsion: { fuel: 100 } },
+            target: "systems",
+            write: "deepMerge",
+          },
+          { source: "crew", target: "crew", write: "concat" },
+        ],
+        { automap: false, immutable: true },
+      );
+
+      const result = mapper.map(source, target);
+
+      assert.deepEqual(result.systems.propulsion, {
+        fuel: 100,
+        engine: "AJ10",
+      });
+      assert.equal(result.systems.power, target.systems.power);
+      assert.equal(result.crew.length, 3);
+    });
+
+    it("should keep class instances and map without target", () => {
+      class Ship {
+        name = "Apollo";
+        launched = new Date(0);
+      }
+
+      const ship = deepFreeze(new Ship());
+      const mapper = new Mapper([["status", "status"]], {
+        automap: false,
+        immutable: true,
+      });
+
+      const result = mapper.map(source, ship as any);
+
+      assert.ok(result instanceof Ship);
+      assert.equal(result.launched, ship.launched);
+      assert.deepEqual(mapper.map(source), { status: "docked" });
+    });
+
+    it("should work in compiled mode, in groups and with nested structures", () => {
+      const target = state();
+      const mapper = new Mapper(
+        [
+          {
+            targetPrefix: "systems.propulsion",
+            rules: [["fuel", "fuel"]],
+          },
+          {
+            source: "$",
+            target: "systems.power",
+            mapper: [["status", "status"]],
+          },
+        ],
+        { automap: false, immutable: true, compiled: true },
+      );
+
+      const result = mapper.map(source, target);
+
+      assert.deepEqual(result.systems, {
+        propulsion: { fuel: 87, engine: "AJ10" },
+        power: { status: "docked" },
+      });
+      assert.equal(target.systems.propulsion.fuel, 40);
+    });
+
+    it("should still modify the target by default", () => {
+      const target = { name: "Apollo" };
+      const mapper = new Mapper([["status", "status"]]);
+
+      assert.equal(mapper.map(source, target), target);
+      assert.equal((target as any).status, "docked");
+    });
+  });
+
+  describe("AsyncMapper", () => {
+    it("should not modify the target with parallel rules", async () => {
+      const target = state();
+      const mapper = new AsyncMapper(
+        [
+          {
+            source: "fuel",
+            target: "systems.propulsion.fuel",
+            transform: async (fuel: number) => fuel - 1,
+          },
+          ["status", "systems.propulsion.status"],
+          ["crew[0]", "crew[]"],
+        ],
+        { immutable: true, parallelRun: true },
+      );
+
+      const result = await mapper.map(source, target);
+
+      assert.deepEqual(result.systems.propulsion, {
+        fuel: 86,
+        engine: "AJ10",
+        status: "docked",
+      });
+      assert.deepEqual(result.crew, [
+        "Sarah Chen",
+        "Marcus Rodriguez",
+        "Sarah Chen",
+      ]);
+      assert.equal(result.systems.power, target.systems.power);
+      assert.equal(target.status, "launched");
+    });
+  });
+
+  describe("detachPath", () => {
+    it("should copy the objects shared with the original once", () => {
+      const original = { a: { b: { c: 1 } }, d: { e: 2 } };
+      const result = shallowCopy(original);
+
+      detachPath(result, original, "a.b.c");
+      const copied = result.a.b;
+      detachPath(result, original, "a.b.c");
+
+      assert.notEqual(result.a.b, original.a.b);
+      assert.equal(result.a.b, copied);
+      assert.equal(result.d, original.d);
+
+      detachPath(result, original, "d", true);
+      assert.notEqual(result.d, original.d);
+    });
+  });
+});
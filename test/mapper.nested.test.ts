@@ -0,0 +1,267 @@
+import { describe, it } from "mocha";
+import { strict as assert } from "assert";
+import { Mapper } from "../src/mapper.js";
+import { AsyncMapper } from "../src/async-mapper.js";
+import type { AsyncStructure, Structure } from "../src/types/mapper.js";
+
+describe("Nested mapping", () => {
+  const source = {
+    mission: {
+      name: "Artemis III",
+      launch: {
+        date: "2027-07-15T14:30:00Z",
+        site: "Kennedy Space Center",
+        pad: null,
+      },
+    },
+  };
+
+  describe("with Mapper", () => {
+    it("should map a sub-document through a nested structure", () => {
+      const structure: Structure = [
+        ["mission.name", "title"],
+        {
+          source: "mission.launch",
+          target: "launch",
+          mapper: [
+            ["date", "scheduledAt"],
+            ["site", "location"],
+          ],
+        },
+      ];
+
+      const result = new Mapper(structure).map(source);
+
+      assert.deepEqual(result, {
+        title: "Artemis III",
+        launch: {
+          scheduledAt: "2027-07-15T14:30:00Z",
+          location: "Kennedy Space Center",
+        },
+      });
+    });
+
+    it("should map a sub-document through a reusable mapper", () => {
+      const launchMapper = new Mapper([["site", "location"]]);
+      const structure: Structure = [
+        { source: "mission.launch", target: "launch", mapper: launchMapper },
+      ];
+
+      const result = new Mapper(structure).map(source);
+
+      assert.deepEqual(result, {
+        launch: { location: "Kennedy Space Center" },
+      });
+    });
+
+    it("should pass parent options down to nested structures", () => {
+      const structure: Structure = [
+        {
+          source: "mission.launch",
+          target: "launch",
+          mapper: [
+            ["site", "location"],
+            ["pad", "pad"],
+          ],
+        },
+      ];
+
+      const result = new Mapper(structure, { skipNull: true }).map(source);
+
+      assert.deepEqual(result, {
+        launch: { location: "Kennedy Space Center" },
+      });
+    });
+
+    it("should let nested mapper options override parent options", () => {
+      const launchMapper = new Mapper([["pad", "pad"]], { skipNull: false });
+      const structure: Structure = [
+        { source: "mission.launch", target: "launch", mapper: launchMapper },
+      ];
+
+      const result = new Mapper(structure, { skipNull: true }).map(source);
+
+      assert.deepEqual(result, { launch: { pad: null } });
+    });
+
+    it("should inherit parent options not set on the nested mapper", () => {
+      const launchMapper = new Mapper([["pad", "pad"]]);
+      const structure: Structure = [
+        { source: "mission.launch", target: "launch", mapper: launchMapper },
+      ];
+
+      const result = new Mapper(structure, { skipNull: true }).map(source);
+
+      assert.deepEqual(result, { launch: {} });
+    });
+
+    it("should apply transform on the nested result", () => {
+      const structure: Structure = [
+        {
+          source: "mission.launch",
+          target: "launchSite",
+          mapper: [["site", "name"]],
+          transform: (launch) => launch.name.toUpperCase(),
+        },
+      ];
+
+      const result = new Mapper(structure).map(source);
+
+      assert.deepEqual(result, { launchSite: "KENNEDY SPACE CENTER" });
+    });
+
+    it("should skip nested mapping when the extracted value is missing", () => {
+      const structure: Structure = [
+        { source: "mission.landing", target: "landing", mapper: [["a", "b"]] },
+      ];
+
+      const result = new Mapper(structure).map(source);
+
+      assert.deepEqual(result, {});
+    });
+
+    it("should map nested structures within nested structures", () => {
+      const structure: Structure = [
+        {
+          source: "mission",
+          target: "mission",
+          mapper: [
+            {
+              source: "launch",
+              target: "launch",
+              mapper: [["site", "location"]],
+            },
+          ],
+        },
+      ];
+
+      const result = new Mapper(structure).map(source);
+
+      assert.deepEqual(result, {
+        mission: { launch: { location: "Kennedy Space Center" } },
+      });
+    });
+
+    it("should report the full nested target path on failure", () => {
+      const structure: Structure = [
+        {
+          source: "mission",
+          target: "mission",
+          mapper: [
+            {
+              source: "launch",
+              target: "launch",
+              mapper: [
+                {
+                  source: "date",
+                  target: "date",
+                  failOn: (date) => date.startsWith("2027"),
+                },
+              ],
+            },
+          ],
+        },
+      ];
+
+      assert.throws(
+        () => new Mapper(structure).map(source),
+        /Mapping failed: condition failed for rule with target 'mission\.launch\.date'/,
+      );
+    });
+  });
+
+  describe("with AsyncMapper", () => {
+    it("should map a sub-document through an async nested structure", async () => {
+      const structure: AsyncStructure = [
+        {
+          source: "mission.launch",
+          target: "launch",
+          mapper: [
+            {
+              source: "site",
+              target: "location",
+              transform: async (site: string) => site.toUpperCase(),
+            },
+          ],
+        },
+      ];
+
+      const result = await new AsyncMapper(structure).map(source);
+
+      assert.deepEqual(result, {
+        launch: { location: "KENNEDY SPACE CENTER" },
+      });
+    });
+
+    it("should accept both sync and async nested mappers", async () => {
+      const structure: AsyncStructure = [
+        {
+          source: "mission.launch",
+          target: "syncLaunch",
+          mapper: new Mapper([["site", "location"]]),
+        },
+        {
+          source: "mission.launch",
+          target: "asyncLaunch",
+          mapper: new AsyncMapper([["date", "scheduledAt"]]),
+        },
+      ];
+
+      const result = await new AsyncMapper(structure).map(source);
+
+      assert.deepEqual(result, {
+        syncLaunch: { location: "Kennedy Space Center" },
+        asyncLaunch: { scheduledAt: "2027-07-15T14:30:00Z" },
+      });
+    });
+
+    it("should run nested rules in parallel when inherited", async () => {
+      const running: number[] = [];
+      let maxRunning = 0;
+
+      const delayed = async (value: string) => {
+        running.push(1);
+        maxRunning = Math.max(maxRunning, running.length);
+        await new Promise((resolve) => setTimeout(resolve, 20));
+        running.pop();
+        return value;
+      };
+
+      const structure: AsyncStructure = [
+        {
+          source: "mission.launch",
+          target: "launch",
+          mapper: [
+            { source: "date", target: "date", transform: delayed },
+            { source: "site", target: "site", transform: delayed },
+          ],
+        },
+      ];
+
+      await new AsyncMapper(structure, { parallelRun: true }).map(source);
+
+      assert.equal(maxRunning, 2);
+    });
+
+    it("should report the full nested target path on async failure", async () => {
+      const structure: AsyncStructure = [
+        {
+          source: "mission.launch",
+          target: "launch",
+          mapper: [
+            {
+              source: "site",
+              target: "location",
+              failOn: async () => true,
+            },
+          ],
+        },
+      ];
+
+      await assert.rejects(
+        () => new AsyncMapper(structure).map(source),
+        /Mapping failed: condition failed for rule with target 'launch\.location'/,
+      );
+    });
+  });
+});
@@ -0,0 +1,360 @@
+import { describe, it } from "mocha";
+import { strict as assert } from "assert";
+import { Mapper } from "../src/mapper.js";
+import { AsyncMapper } from "../src/async-mapper.js";
+import { FailOnError, TransformError } from "../src/errors.js";
+import { TransformRegistry } from "../src/registry.js";
+import { loadStructure, serializeStructure } from "../src/serialization.js";
+import { validateStructure } from "../src/structure.js";
+import type { RuleObject } from "../src/types/mapper.js";
+
+describe("Transform pipelines", () => {
+  const delay = (ms: number) =>
+    new Promise((resolve) => setTimeout(resolve, ms));
+
+  describe("Mapper", () => {
+    it("should run the steps in order", () => {
+      const mapper = new Mapper([
+        {
+          source: "fuel",
+          target: "fuel",
+          transform: [
+            (fuel: string) => fuel.trim(),
+            (fuel: string) => Number(fuel),
+            (fuel: number) => Math.round(fuel),
+          ],
+        },
+      ]);
+
+      assert.deepEqual(mapper.map({ fuel: " 94.6 " }), { fuel: 95 });
+    });
+
+    it("should pass the source and target to every step", () => {
+      const mapper = new Mapper(
+        [
+          { constant: "Artemis", target: "program" },
+          {
+            source: "number",
+            target: "title",
+            transform: [
+              (number, source) => `${source.prefix}${number}`,
+              (title, _source, target) => `${target.program} ${title}`,
+            ],
+          },
+        ],
+        { automap: false },
+      );
+
+      assert.deepEqual(mapper.map({ number: 3, prefix: "#" }), {
+        program: "Artemis",
+        title: "Artemis #3",
+      });
+    });
+
+    it("should keep the value with an empty pipeline", () => {
+      const mapper = new Mapper([
+        { source: "name", target: "title", transform: [] },
+      ]);
+
+      assert.deepEqual(mapper.map({ name: "Orion" }), { title: "Orion" });
+    });
+
+    it("should report the index of the failing step", () => {
+      const mapper = new Mapper([
+        {
+          source: "fuel",
+          target: "fuel",
+          transform: [
+            (fuel: string) => fuel.trim(),
+            () => {
+              throw new Error("cannot parse");
+            },
+          ],
+        },
+      ]);
+
+      assert.throws(
+        () => mapper.map({ fuel: "95" }),
+        (error: unknown) =>
+          error instanceof TransformError &&
+          error.step === 1 &&
+          error.value === "95" &&
+          error.message ===
+            "Mapping failed: transform threw at step 1: cannot parse for rule with target 'fuel'",
+      );
+    });
+
+    it("should check the failOn of a step on its result", () => {
+      const seen: number[] = [];
+      const mapper = new Mapper([
+        {
+          source: "fuel",
+          target: "fuel",
+          transform: [
+            { transform: Number, failOn: (value) => Number.isNaN(value) },
+            (value: number) => {
+              seen.push(value);
+              return value;
+            },
+          ],
+        },
+      ]);
+
+      assert.deepEqual(mapper.map({ fuel: "95" }), { fuel: 95 });
+      assert.throws(
+        () => mapper.map({ fuel: "full" }),
+        (error: unknown) =>
+          error instanceof FailOnError &&
+          error.step === 0 &&
+          error.reason === "condition failed" &&
+          /condition failed at step 0 for rule with target 'fuel'/.test(
+            error.message,
+          ),
+      );
+      assert.deepEqual(seen, [95]);
+    });
+
+    it("should use failOn results and failCode in step errors", () => {
+      const mapper = new Mapper([
+        {
+          source: "fuel",
+          target: "fuel",
+          failCode: "FUEL",
+          transform: [
+            { transform: Number, failOn: (value) => value < 0 && "negative" },
+          ],
+        },
+      ]);
+
+      assert.throws(
+        () => mapper.map({ fuel: "-1" }),
+        (error: unknown) =>
+          error instanceof FailOnError &&
+          error.code === "FUEL" &&
+          error.reason === "negative",
+      );
+    });
+
+    it("should check the failOn of the rule after the last step", () => {
+      const mapper = new Mapper([
+        {
+          source: "fuel",
+          target: "fuel",
+          transform: [Number, (fuel: number) => fuel * 2],
+          failOn: (fuel) => fuel > 100,
+        },
+      ]);
+
+      assert.throws(
+        () => mapper.map({ fuel: "60" }),
+        (error: unknown) =>
+          error instanceof FailOnError && error.step === undefined,
+      );
+    });
+
+    it("should run pipelines in compiled mode", () => {
+      const mapper = new Mapper(
+        [
+          {
+            source: "fuel",
+            target: "fuel",
+            transform: [Number, (fuel: number) => fuel / 100],
+          },
+        ],
+        { compiled: true },
+      );
+
+      assert.deepEqual(mapper.map({ fuel: "95" }), { fuel: 0.95 });
+    });
+
+    it("should reverse pipelines", () => {
+      const mapper = new Mapper([
+        {
+          source: "fuel",
+          target: "fuelPercent",
+          transform: [Number, (fuel: number) => fuel * 100],
+          reverseTransform: [(percent: number) => percent / 100, String],
+        },
+      ]);
+
+      assert.deepEqual(mapper.reverse().map({ fuelPercent: 95 }), {
+        fuel: "0.95",
+      });
+    });
+  });
+
+  describe("AsyncMapper", () => {
+    it("should mix sync and async steps", async () => {
+      const mapper = new AsyncMapper([
+        {
+          source: "name",
+          target: "title",
+          transform: [
+            (name: string) => name.trim(),
+            async (name: string) => {
+              await delay(5);
+              return name.toUpperCase();
+            },
+            (name: string) => `${name}!`,
+          ],
+        },
+      ]);
+
+      assert.deepEqual(await mapper.map({ name: " orion " }), {
+        title: "ORION!",
+      });
+    });
+
+    it("should await the failOn of a step", async () => {
+      const mapper = new AsyncMapper([
+        {
+          source: "fuel",
+          target: "fuel",
+          transform: [
+            Number,
+            {
+              transform: async (fuel: number) => fuel * 2,
+              failOn: async (fuel: number) => fuel > 100,
+            },
+          ],
+        },
+      ]);
+
+      assert.deepEqual(await mapper.map({ fuel: "40" }), { fuel: 80 });
+      await assert.rejects(
+        () => mapper.map({ fuel: "60" }),
+        (error: unknown) => error instanceof FailOnError && error.step === 1,
+      );
+    });
+
+    it("should report the index of a rejected step", async () => {
+      const mapper = new AsyncMapper([
+        {
+          source: "fuel",
+          target: "fuel",
+          transform: [
+            Number,
+            async () => {
+              throw new Error("offline");
+            },
+          ],
+        },
+      ]);
+
+      await assert.rejects(
+        () => mapper.map({ fuel: "60" }),
+        (error: unknown) =>
+          error instanceof TransformError &&
+          error.step === 1 &&
+          /transform threw at step 1: offline/.test(error.message),
+      );
+    });
+  });
+
+  describe("structures", () => {
+    it("should validate the steps of pipelines", () => {
+      const diagnostics = validateStructure([
+        {
+          source: "a",
+          target: "a",
+          transform: [Number, { transform: String }],
+        },
+        { source: "b", target: "b", transform: [Number, "trim"] as any },
+        {
+          source: "c",
+          target: "c",
+          transform: [{ transform: Number, failOn: true }] as any,
+        },
+        { source: "d", target: "d", filter: [Number] as any },
+      ]);
+
+      assert.deepEqual(
+        diagnostics.map((diagnostic) => [diagnostic.index, diagnostic.message]),
+        [
+          [
+            1,
+            "'transform' step 1 must be a function or a { transform, failOn } object of functions",
+          ],
+          [
+            2,
+            "'transform' step 0 must be a function or a { transform, failOn } object of functions",
+          ],
+          [3, "'filter' must be a function"],
+        ],
+      );
+    });
+
+    it("should load and serialize pipelines of named references", () => {
+      const registry = new TransformRegistry()
+        .register("trim", () => (value) => value.trim())
+        .register("toNumber", () => (value) => Number(value))
+        .register("round", (digits) => (value) => Number(value.toFixed(digits)))
+        .register("isNaN", () => (value) => Number.isNaN(value));
+
+      const json = [
+        {
+          source: "fuel",
+          target: "fuel",
+          transform: [
+            ["trim"],
+            { transform: "toNumber", failOn: "isNaN" },
+            ["round", 1],
+          ],
+        },
+        { source: "name", target: "name", transform: ["round", 2] },
+      ];
+
+      const structure = loadStructure(json as any, registry);
+      const [rule, single] = structure as RuleObject[];
+
+      assert.ok(Array.isArray(rule!.transform));
+      assert.equal(typeof single!.transform, "function");
+      assert.deepEqual(
+        new Mapper(structure).map({ fuel: " 94.56 ", name: 1.005 }),
+        {
+          fuel: 94.6,
+          name: 1,
+        },
+      );
+      assert.deepEqual(serializeStructure(structure), [
+        {
+          source: "fuel",
+          target: "fuel",
+          transform: [
+            ["trim"],
+            { transform: ["toNumber"], failOn: ["isNaN"] },
+            ["round", 1],
+          ],
+        },
+        { source: "name", target: "name", transform: ["round", 2] },
+      ]);
+    });
+
+    it("should report unknown references and unregistered steps", () => {
+      const registry = new TransformRegistry().register(
+        "trim",
+        () => (value) => value.trim(),
+      );
+
+      assert.throws(
+        () =>
+          loadStructure(
+            [{ source: "a", target: "a", transform: [["trim"], ["nope"]] }],
+            registry,
+          ),
+        /transform: step 1: Unknown function 'nope'/,
+      );
+      assert.throws(
+        () =>
+          serializeStructure([
+            {
+              source: "a",
+              target: "a",
+              transform: [registry.resolve("trim"), { transform: Number }],
+            },
+          ]),
+        /rule 0 \(transform step 1 transform is not a registered function\)/,
+      );
+    });
+  });
+});
@@ -0,0 +1,253 @@
+import { describe, it } from "mocha";
+import { strict as assert } from "assert";
+import { Mapper } from "../src/mapper.js";
+import { AsyncMapper } from "../src/async-mapper.js";
+import { TransformRegistry } from "../src/registry.js";
+import { loadStructure, serializeStructure } from "../src/serialization.js";
+import { FailOnError, StructureError } from "../src/errors.js";
+import type { SerializedStructure } from "../src/types/registry.js";
+
+describe("Serializable structures", () => {
+  const registry = new TransformRegistry()
+    .register("toNumber", () => (value) => Number(value))
+    .register(
+      "round",
+      (digits: number) => (value: number) => Number(value.toFixed(digits)),
+    )
+    .register("notEmpty", () => (value) => value !== "")
+    .register("below", (limit: number) => (value: number) => value < limit)
+    .register("uppercase", () => async (value: string) => value.toUpperCase());
+
+  const json: SerializedStructure = [
+    ["mission.name", "title"],
+    {
+      source: "mission.fuel",
+      target: "fuel",
+      transform: ["round", 1],
+      failOn: ["below", 10],
+      failMessage: "Not enough fuel",
+    },
+    { source: "mission.crew", target: "crew", transform: "toNumber" },
+    {
+      source: "mission.callSign",
+      target: "callSign",
+      filter: ["notEmpty"],
+    },
+    {
+      source: "astronauts",
+      target: "astronauts",
+      each: [{ source: "age", target: "age", transform: ["toNumber"] }],
+    },
+  ];
+
+  const source = {
+    mission: { name: "Artemis III", fuel: 95.47, crew: "4", callSign: "" },
+    astronauts: [{ age: "42" }],
+  };
+
+  describe("TransformRegistry", () => {
+    it("should resolve names and arguments", () => {
+      assert.equal(registry.resolve(["round", 2])(1.2345, {}, {}), 1.23);
+      assert.equal(registry.resolve("toNumber")("12", {}, {}), 12);
+      assert.ok(registry.has("round"));
+      assert.deepEqual(registry.names(), [
+        "toNumber",
+        "round",
+        "notEmpty",
+        "below",
+        "uppercase",
+      ]);
+    });
+
+    it("should throw on unknown names and malformed references", () => {
+      assert.throws(() => registry.resolve("missing"), /Unknown function/);
+      assert.throws(
+        () => registry.resolve([42] as any),
+        /Invalid function reference/,
+      );
+    });
+  });
+
+  describe("loadStructure", () => {
+    it("should load a JSON string into a mapping structure", () => {
+      const structure = loadStructure(JSON.stringify(json), registry);
+
+      assert.deepEqual(new Mapper(structure, { automap: false }).map(source), {
+        title: "Artemis III",
+        fuel: 95.5,
+        crew: 4,
+        astronauts: [{ age: 42 }],
+      });
+    });
+
+    it("should keep failOn messages", () => {
+      const mapper = new Mapper(loadStructure(json, registry));
+
+      assert.throws(
+        () => mapper.map({ ...source, mission: { fuel: 5 } }),
+        (error: unknown) =>
+          error instanceof FailOnError && error.reason === "Not enough fuel",
+      );
+    });
+
+    it("should report unknown functions with their rule", () => {
+      assert.throws(
+        () =>
+          loadStructure(
+            [
+              ["name", "title"],
+              { source: "fuel", target: "fuel", transform: ["toFloat"] },
+              {
+                source: "crew",
+                target: "crew",
+                each: [{ source: "age", target: "age", filter: ["isAdult"] }],
+              },
+            ],
+            registry,
+          ),
+        (error: unknown) => {
+          assert.ok(error instanceof StructureError);
+          assert.deepEqual(
+            error.diagnostics.map(({ index, code, message }) => [
+              index,
+              code,
+              message,
+            ]),
+            [
+              [1, "invalid-reference", "transform: Unknown function 'toFloat'"],
+              [
+                2,
+                "invalid-reference",
+                "nested rule 0: filter: Unknown function 'isAdult'",
+              ],
+            ],
+          );
+          return true;
+        },
+      );
+    });
+
+    it("should keep functions already in the structure", () => {
+      const transform = (value: string) => value.length;
+      const [rule] = loadStructure(
+        [{ source: "name", target: "length", transform }],
+        registry,
+      );
+
+      assert.equal((rule as any).transform, transform);
+    });
+  });
+
+  describe("serializeStructure", () => {
+    it("should round-trip a loaded structure", () => {
+      const serialized = serializeStructure(loadStructure(json, registry));
+
+      assert.deepEqual(serialized, [
+        ["mission.name", "title"],
+        {
+          source: "mission.fuel",
+          target: "fuel",
+          transform: ["round", 1],
+          failOn: ["below", 10],
+          failMessage: "Not enough fuel",
+        },
+        { source: "mission.crew", target: "crew", transform: ["toNumber"] },
+        {
+          source: "mission.callSign",
+          target: "callSign",
+          filter: ["notEmpty"],
+        },
+        {
+          source: "astronauts",
+          target: "astronauts",
+          each: [{ source: "age", target: "age", transform: ["toNumber"] }],
+        },
+      ]);
+      assert.deepEqual(JSON.parse(JSON.stringify(serialized)), serialized);
+    });
+
+    it("should serialize nested mappers as structures", () => {
+      const serialized = serializeStructure([
+        {
+          source: "crew",
+          target: "crew",
+          mapper: new Mapper([["name", "fullName"]]),
+        },
+      ]);
+
+      assert.deepEqual(serialized, [
+        { source: "crew", target: "crew", mapper: [["name", "fullName"]] },
+      ]);
+    });
+
+    it("should throw on functions that are not registered", () => {
+      assert.throws(
+        () =>
+          serializeStructure([
+            { source: "name", target: "title", transform: (v) => v },
+            {
+              source: "crew",
+              target: "crew",
+              each: [{ source: "a", target: "b", filter: () => true }],
+            },
+          ]),
+        /Cannot serialize structure: rule 0 \(transform is not a registered function\), rule 1 \(nested rule 0 \(filter is not a registered function\)\)/,
+      );
+    });
+  });
+
+  describe("registry option", () => {
+    it("should load serialized structures given to the mapper", () => {
+      const mapper = new Mapper(json, { registry, automap: false });
+
+      assert.equal(mapper.map(source).fuel, 95.5);
+      assert.deepEqual(
+        mapper.serializeStructure(),
+        serializeStructure(loadStructure(json, registry)),
+      );
+    });
+
+    it("should load replaced structures", () => {
+      const mapper = new Mapper([], { registry });
+
+      mapper.setStructure([
+        { source: "crew", target: "crew", transform: ["toNumber"] },
+      ]);
+
+      assert.deepEqual(mapper.map({ crew: "3" }), { crew: 3 });
+    });
+
+    it("should reject named functions without a registry", () => {
+      const structure = [
+        { source: "fuel", target: "fuel", transform: ["toNumber"] },
+        { source: "name", target: "name", failOn: "isEmpty" },
+        { source: "crew", target: "crew", transform: [(crew: any) => crew] },
+      ] as SerializedStructure;
+
+      assert.throws(
+        () => new Mapper(structure),
+        (error: StructureError) =>
+          error instanceof StructureError &&
+          error.diagnostics.map((diagnostic) => diagnostic.index).join() ===
+            "0,1" &&
+          /named function "toNumber" cannot be resolved without a registry/.test(
+            error.message,
+          ),
+      );
+      assert.throws(
+        () => new AsyncMapper([]).setAsyncStructure(structure as any),
+        StructureError,
+      );
+      assert.doesNotThrow(() => new Mapper([structure[2] as any]));
+    });
+
+    it("should support async functions with AsyncMapper", async () => {
+      const mapper = new AsyncMapper(
+        [{ source: "name", target: "name", transform: ["uppercase"] }],
+        { registry },
+      );
+
+      assert.deepEqual(await mapper.map({ name: "orion" }), { name: "ORION" });
+    });
+  });
+});
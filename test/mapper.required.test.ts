@@ -0,0 +1,176 @@
+import { describe, it } from "mocha";
+import { strict as assert } from "assert";
+import { Mapper } from "../src/mapper.js";
+import { AsyncMapper } from "../src/async-mapper.js";
+import { ExtractionError, MappingAggregateError } from "../src/errors.js";
+import type { Structure } from "../src/types/mapper.js";
+
+describe("Required sources and strict mode", () => {
+  const source = {
+    mission: { name: "Artemis III", status: null, notes: undefined },
+    crew: [{ name: "Sarah Chen", role: "commander" }, { name: "Marcus" }],
+  };
+
+  describe("required rules", () => {
+    it("should throw when a required source matches nothing", () => {
+      const mapper = new Mapper([
+        { source: "mission.launchDate", target: "launch", required: true },
+      ]);
+
+      assert.throws(
+        () => mapper.map(source),
+        (error: unknown) => {
+          assert.ok(error instanceof ExtractionError);
+          assert.equal(error.source, "$.mission.launchDate");
+          assert.equal(error.target, "launch");
+          assert.equal(
+            error.message,
+            "Mapping failed: required source '$.mission.launchDate' matched nothing for rule with target 'launch'",
+          );
+          return true;
+        },
+      );
+    });
+
+    it("should accept matched null and undefined values", () => {
+      const mapper = new Mapper(
+        [
+          { source: "mission.status", target: "status", required: true },
+          { source: "mission.notes", target: "notes", required: true },
+        ],
+        { automap: false },
+      );
+
+      assert.deepEqual(mapper.map(source), { status: null });
+    });
+
+    it("should not apply the default value of a missing required source", () => {
+      const mapper = new Mapper([
+        {
+          source: "mission.launchDate",
+          target: "launch",
+          defaultValue: "TBD",
+          required: true,
+        },
+      ]);
+
+      assert.throws(() => mapper.map(source), ExtractionError);
+    });
+
+    it("should require at least one match for wildcards and filters", () => {
+      const mapper = new Mapper([
+        {
+          source: "crew[?(@.role=='pilot')].name",
+          target: "pilot",
+          required: true,
+        },
+      ]);
+
+      assert.throws(() => mapper.map(source), /matched nothing/);
+    });
+
+    it("should throw when the source document is missing", () => {
+      const mapper = new Mapper(
+        [{ source: "mission", target: "mission", required: true }],
+        { automap: false },
+      );
+
+      assert.throws(() => mapper.map(null), /matched nothing/);
+    });
+  });
+
+  describe("strict option", () => {
+    const structure: Structure = [
+      ["mission.name", "title"],
+      ["mission.status", "status"],
+      ["mission.launchDate", "launch"],
+    ];
+
+    it("should throw when any source matches nothing", () => {
+      const mapper = new Mapper(structure, { strict: true });
+
+      assert.throws(
+        () => mapper.map(source),
+        /required source '\$\.mission\.launchDate' matched nothing/,
+      );
+    });
+
+    it("should keep rules with a default value or required: false optional", () => {
+      const mapper = new Mapper(
+        [
+          ["mission.name", "title"],
+          {
+            source: "mission.launchDate",
+            target: "launch",
+            defaultValue: "TBD",
+          },
+          { source: "mission.site", target: "site", required: false },
+          { constant: "planned", target: "state" },
+        ],
+        { strict: true, automap: false },
+      );
+
+      assert.deepEqual(mapper.map(source), {
+        title: "Artemis III",
+        launch: "TBD",
+        state: "planned",
+      });
+    });
+
+    it("should apply to nested structures", () => {
+      const mapper = new Mapper(
+        [{ source: "crew", target: "members", each: [["role", "role"]] }],
+        { strict: true },
+      );
+
+      assert.throws(
+        () => mapper.map(source),
+        /for rule with target 'members\[1\]\.role'/,
+      );
+    });
+
+    it("should work with a compiled structure", () => {
+      const mapper = new Mapper(structure, { strict: true, compiled: true });
+
+      assert.throws(() => mapper.map(source), ExtractionError);
+    });
+
+    it("should report every missing source with collectErrors", () => {
+      const mapper = new Mapper([...structure, ["mission.site", "site"]], {
+        strict: true,
+        collectErrors: true,
+      });
+
+      assert.throws(
+        () => mapper.map(source),
+        (error: unknown) => {
+          assert.ok(error instanceof MappingAggregateError);
+          assert.deepEqual(
+            error.errors.map((failure) => failure.target),
+            ["launch", "site"],
+          );
+          return true;
+        },
+      );
+    });
+
+    it("should be disabled by default", () => {
+      assert.deepEqual(new Mapper(structure).map(source), {
+        title: "Artemis III",
+        status: null,
+      });
+    });
+  });
+
+  it("should reject missing sources with AsyncMapper", async () => {
+    const mapper = new AsyncMapper(
+      [
+        ["mission.name", "title"],
+        { source: "mission.launchDate", target: "launch", required: true },
+      ],
+      { parallelRun: true },
+    );
+
+    await assert.rejects(() => mapper.map(source), ExtractionError);
+  });
+});
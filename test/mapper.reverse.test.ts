@@ -0,0 +1,210 @@
+import { describe, it } from "mocha";
+import { strict as assert } from "assert";
+import { Mapper } from "../src/mapper.js";
+import { reverseStructure } from "../src/reverse.js";
+import type { RuleObject, Structure } from "../src/types/mapper.js";
+
+describe("Reverse mapping", () => {
+  describe("reverseStructure", () => {
+    it("should invert simple array and object rules", () => {
+      const structure: Structure = [
+        ["mission.name", "title"],
+        { source: "mission.launch.site", target: "launch.location" },
+      ];
+
+      const result = reverseStructure(structure);
+
+      assert.deepEqual(result.structure, [
+        ["$.title", "mission.name"],
+        { source: "$.launch.location", target: "mission.launch.site" },
+      ]);
+      assert.deepEqual(result.skipped, []);
+    });
+
+    it("should invert array indexes and escaped keys", () => {
+      const structure: Structure = [
+        ["crew[0].name", "commander"],
+        ["$['launch.site']", "launch\\.site"],
+        ["version", "meta.values[2]"],
+      ];
+
+      const result = reverseStructure(structure);
+
+      assert.deepEqual(result.structure, [
+        ["$.commander", "crew[0].name"],
+        ["$['launch.site']", "launch\\.site"],
+        ["$.meta.values[2]", "version"],
+      ]);
+    });
+
+    it("should respect assumeRoot", () => {
+      const result = reverseStructure([["$.name", "title"]], false);
+
+      assert.deepEqual(result.structure, [["$.title", "name"]]);
+      assert.equal(
+        reverseStructure([["name", "title"]], false).skipped.length,
+        1,
+      );
+    });
+
+    it("should swap transform and reverseTransform", () => {
+      const toCelsius = (value: number) => value - 273.15;
+      const toKelvin = (value: number) => value + 273.15;
+      const structure: Structure = [
+        {
+          source: "temperature",
+          target: "celsius",
+          transform: toCelsius,
+          reverseTransform: toKelvin,
+        },
+      ];
+
+      const [rule] = reverseStructure(structure).structure as RuleObject[];
+
+      assert.equal(rule!.transform, toKelvin);
+      assert.equal(rule!.reverseTransform, toCelsius);
+    });
+
+    it("should report rules that cannot be inverted", () => {
+      const structure: Structure = [
+        ["crew[*].name", "names"],
+        ["crew[?(@.role=='pilot')]", "pilot"],
+        ["$..name", "names"],
+        { constant: "planned", target: "status" },
+        { source: "name", target: "title", filter: () => true },
+        { source: "name", target: "title", transform: (v) => v },
+        ["name", "title"],
+      ];
+
+      const result = reverseStructure(structure);
+
+      assert.deepEqual(result.structure, [["$.title", "name"]]);
+      assert.deepEqual(
+        result.skipped.map((issue) => issue.index),
+        [0, 1, 2, 3, 4, 5],
+      );
+      assert.equal(result.skipped[3]!.rule, structure[3]);
+      assert.match(result.skipped[0]!.reason, /not a simple JSONPath/);
+      assert.match(result.skipped[3]!.reason, /constant/);
+      assert.match(result.skipped[4]!.reason, /filter/);
+      assert.match(result.skipped[5]!.reason, /reverseTransform/);
+    });
+
+    it("should invert nested structures", () => {
+      const structure: Structure = [
+        {
+          source: "mission.launch",
+          target: "launch",
+          mapper: new Mapper([["site", "location"]]),
+        },
+        { source: "crew", target: "members", each: [["name", "fullName"]] },
+      ];
+
+      const result = reverseStructure(structure);
+
+      assert.deepEqual(result.structure, [
+        {
+          source: "$.launch",
+          target: "mission.launch",
+          mapper: [["$.location", "site"]],
+        },
+        { source: "$.members", target: "crew", each: [["$.fullName", "name"]] },
+      ]);
+    });
+
+    it("should report nested rules that cannot be inverted", () => {
+      const structure: Structure = [
+        {
+          source: "mission.launch",
+          target: "launch",
+          mapper: [{ constant: 1, target: "version" }],
+        },
+      ];
+
+      const result = reverseStructure(structure);
+
+      assert.equal(result.skipped.length, 1);
+      assert.match(result.skipped[0]!.reason, /nested rule 0 \(constant/);
+    });
+  });
+
+  describe("Mapper.reverse", () => {
+    it("should build a mapper going back to the source shape", () => {
+      const source = {
+        mission: { name: "Artemis III", launch: { site: "KSC" } },
+        crew: [{ name: "Sarah Chen" }],
+      };
+      const mapper = new Mapper(
+        [
+          ["mission.name", "title"],
+          ["mission.launch.site", "launch.location"],
+          ["crew[0].name", "commander"],
+        ],
+        { automap: false },
+      );
+
+      const target = mapper.map(source);
+      const back = mapper.reverse().map(target);
+
+      assert.deepEqual(back, source);
+    });
+
+    it("should round-trip invertible transforms", () => {
+      const mapper = new Mapper([
+        {
+          source: "fuel",
+          target: "fuelPercent",
+          transform: (fuel: number) => fuel * 100,
+          reverseTransform: (percent: number) => percent / 100,
+        },
+      ]);
+
+      const reversed = mapper.reverse();
+
+      assert.deepEqual(reversed.map({ fuelPercent: 95 }), { fuel: 0.95 });
+      assert.deepEqual(reversed.reverse().map({ fuel: 0.5 }), {
+        fuelPercent: 50,
+      });
+    });
+
+    it("should keep the mapper options", () => {
+      const mapper = new Mapper([["name", "title"]], { skipNull: true });
+
+      assert.equal(mapper.reverse().getOptions().skipNull, true);
+    });
+
+    it("should not validate reversed targets against the forward schema", () => {
+      const mapper = new Mapper([["a", "x.y"]], {
+        targetSchema: { type: "object", required: ["x"] },
+      });
+      const reversed = mapper.reverse();
+
+      assert.deepEqual(reversed.map({ x: { y: 1 } }), { a: 1 });
+      assert.equal(reversed.getOptions().targetSchema, null);
+      assert.equal(reversed.getOptions().registry, null);
+    });
+
+    it("should throw when rules cannot be inverted", () => {
+      const mapper = new Mapper([
+        ["name", "title"],
+        { constant: "planned", target: "status" },
+      ]);
+
+      assert.throws(
+        () => mapper.reverse(),
+        /Cannot reverse structure: rule 1 \(constant rules have no source/,
+      );
+    });
+
+    it("should skip rules that cannot be inverted in partial mode", () => {
+      const mapper = new Mapper([
+        ["name", "title"],
+        { constant: "planned", target: "status" },
+      ]);
+
+      const reversed = mapper.reverse({ partial: true });
+
+      assert.deepEqual(reversed.getStructure(), [["$.title", "name"]]);
+    });
+  });
+});
@@ -0,0 +1,246 @@
+import { describe, it } from "mocha";
+import { strict as assert } from "assert";
+import { Mapper } from "../src/mapper.js";
+import { AsyncMapper } from "../src/async-mapper.js";
+import { validateTarget } from "../src/schema.js";
+import { ValidationError } from "../src/errors.js";
+import type { JsonSchema } from "../src/types/schema.js";
+
+describe("Target schema validation", () => {
+  const missionSchema: JsonSchema = {
+    type: "object",
+    required: ["title", "crew"],
+    properties: {
+      title: { type: "string", minLength: 3, pattern: "^[A-Z]" },
+      status: { enum: ["planned", "active", "completed"] },
+      fuel: { type: "number", minimum: 0, maximum: 100 },
+      crew: {
+        type: "array",
+        minItems: 1,
+        items: {
+          type: "object",
+          required: ["name"],
+          properties: {
+            name: { type: "string" },
+            age: { type: "integer", exclusiveMinimum: 0 },
+          },
+        },
+      },
+    },
+  };
+
+  describe("validateTarget", () => {
+    it("should accept a valid value", () => {
+      const result = validateTarget(missionSchema, {
+        title: "Artemis III",
+        status: "planned",
+        fuel: 95,
+        crew: [{ name: "Sarah Chen", age: 42 }],
+      });
+
+      assert.deepEqual(result, { valid: true, issues: [] });
+    });
+
+    it("should report issues with their path and keyword", () => {
+      const result = validateTarget(missionSchema, {
+        title: "ar",
+        status: "cancelled",
+        fuel: 120,
+        crew: [{ name: "Sarah Chen", age: 0 }, { age: 1.5 }],
+      });
+
+      assert.equal(result.valid, false);
+      assert.deepEqual(
+        result.issues.map(({ path, keyword }) => [path, keyword]),
+        [
+          ["title", "minLength"],
+          ["title", "pattern"],
+          ["status", "enum"],
+          ["fuel", "maximum"],
+          ["crew[0].age", "exclusiveMinimum"],
+          ["crew[1].name", "required"],
+          ["crew[1].age", "type"],
+        ],
+      );
+      assert.equal(result.issues[5]!.message, "is required");
+      assert.equal(result.issues[6]!.message, "must be integer");
+    });
+
+    it("should treat undefined properties as missing", () => {
+      const result = validateTarget(
+        { type: "object", required: ["title"] },
+        { title: undefined },
+      );
+
+      assert.deepEqual(result.issues, [
+        { path: "title", keyword: "required", message: "is required" },
+      ]);
+    });
+
+    it("should support type unions, boolean schemas and escaped keys", () => {
+      const schema: JsonSchema = {
+        type: "object",
+        properties: {
+          "launch.site": { type: ["string", "null"] },
+          extra: false,
+          any: true,
+        },
+      };
+
+      assert.ok(validateTarget(schema, { "launch.site": null, any: 1 }).valid);
+      assert.deepEqual(
+        validateTarget(schema, { "launch.site": 1, extra: 1 }).issues.map(
+          (issue) => issue.path,
+        ),
+        ["launch\\.site", "extra"],
+      );
+    });
+
+    it("should distinguish objects, arrays and null", () => {
+      assert.equal(validateTarget({ type: "object" }, []).valid, false);
+      assert.equal(validateTarget({ type: "object" }, null).valid, false);
+      assert.equal(validateTarget({ type: "array" }, {}).valid, false);
+      assert.equal(validateTarget({ type: "number" }, NaN).valid, false);
+      assert.equal(validateTarget({ type: "number" }, 4).valid, true);
+      assert.deepEqual(validateTarget({ type: "string" }, 1).issues, [
+        { path: "", keyword: "type", message: "must be string" },
+      ]);
+    });
+
+    it("should compare enum values deeply", () => {
+      const schema: JsonSchema = { enum: [{ code: 1 }, [1, 2]] };
+
+      assert.ok(validateTarget(schema, { code: 1 }).valid);
+      assert.ok(validateTarget(schema, [1, 2]).valid);
+      assert.equal(validateTarget(schema, { code: 2 }).valid, false);
+    });
+  });
+
+  describe("targetSchema option", () => {
+    const source = {
+      mission: { name: "Artemis III", fuel: 95 },
+      crew: [{ name: "Sarah Chen" }, { fullName: "Marcus Rodriguez" }],
+    };
+
+    it("should validate the mapped target", () => {
+      const mapper = new Mapper(
+        [
+          ["mission.name", "title"],
+          ["crew", "crew"],
+        ],
+        { targetSchema: missionSchema, automap: false },
+      );
+
+      assert.throws(
+        () => mapper.map(source),
+        (error: unknown) => {
+          assert.ok(error instanceof ValidationError);
+          assert.equal(error.issues.length, 1);
+          assert.equal(error.issues[0]!.path, "crew[1].name");
+          assert.equal(error.issues[0]!.index, 1);
+          assert.deepEqual(error.issues[0]!.rule, {
+            source: "crew",
+            target: "crew",
+          });
+          assert.deepEqual(error.target.title, "Artemis III");
+          assert.equal(
+            error.message,
+            "Target validation failed with 1 issue:\n- 'crew[1].name' is required (rule 1 with target 'crew')",
+          );
+          return true;
+        },
+      );
+    });
+
+    it("should point at the rules of nested structures", () => {
+      const mapper = new Mapper(
+        [
+          ["mission.name", "title"],
+          {
+            source: "crew",
+            target: "crew",
+            each: [["name", "name"], { constant: -1, target: "age" }],
+          },
+        ],
+        { targetSchema: missionSchema, automap: false },
+      );
+
+      assert.throws(
+        () => mapper.map(source),
+        (error: unknown) => {
+          assert.ok(error instanceof ValidationError);
+          assert.deepEqual(
+            error.issues.map((issue) => [issue.path, issue.rule?.target]),
+            [
+              ["crew[0].age", "age"],
+              ["crew[1].name", "crew"],
+              ["crew[1].age", "age"],
+            ],
+          );
+          return true;
+        },
+      );
+    });
+
+    it("should report issues without rules for missing properties", () => {
+      const mapper = new Mapper([["mission.name", "title"]], {
+        targetSchema: missionSchema,
+        automap: false,
+      });
+
+      assert.throws(
+        () => mapper.map(source),
+        (error: unknown) => {
+          assert.ok(error instanceof ValidationError);
+          assert.equal(error.issues[0]!.path, "crew");
+          assert.equal(error.issues[0]!.rule, undefined);
+          assert.match(error.message, /- 'crew' is required$/);
+          return true;
+        },
+      );
+    });
+
+    it("should validate compiled and batch mappings", () => {
+      const mapper = new Mapper([["mission.fuel", "fuel"]], {
+        targetSchema: { properties: { fuel: { maximum: 100 } } },
+        automap: false,
+        compiled: true,
+      });
+
+      assert.deepEqual(mapper.mapMany([source]), [{ fuel: 95 }]);
+      assert.throws(
+        () => mapper.mapMany([source, { mission: { fuel: 101 } }]),
+        ValidationError,
+      );
+    });
+
+    it("should validate AsyncMapper targets", async () => {
+      const mapper = new AsyncMapper(
+        [
+          {
+            source: "mission.name",
+            target: "title",
+            transform: async (name: string) => name.toLowerCase(),
+          },
+        ],
+        { targetSchema: missionSchema, automap: false, parallelRun: true },
+      );
+
+      await assert.rejects(
+        () => mapper.map(source),
+        (error: unknown) => {
+          assert.ok(error instanceof ValidationError);
+          assert.deepEqual(
+            error.issues.map((issue) => [issue.path, issue.keyword]),
+            [
+              ["crew", "required"],
+              ["title", "pattern"],
+            ],
+          );
+          assert.equal(error.issues[1]!.index, 0);
+          return true;
+        },
+      );
+    });
+  });
+});
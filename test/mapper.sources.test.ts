@@ -0,0 +1,244 @@
+import { describe, it } from "mocha";
+import { strict as assert } from "assert";
+import { Mapper } from "../src/mapper.js";
+import { AsyncMapper } from "../src/async-mapper.js";
+import { ExtractionError } from "../src/errors.js";
+import { validateStructure } from "../src/structure.js";
+
+describe("Multi-source rules", () => {
+  const source = {
+    crew: { firstName: "Sarah", lastName: "Chen", middleName: null },
+    launch: { site: "KSC" },
+  };
+
+  describe("Mapper", () => {
+    it("should pass tuple sources as an array", () => {
+      const mapper = new Mapper([
+        {
+          sources: ["crew.firstName", "crew.lastName"],
+          target: "fullName",
+          transform: ([first, last]) => `${first} ${last}`,
+        },
+      ]);
+
+      assert.deepEqual(mapper.map(source), { fullName: "Sarah Chen" });
+    });
+
+    it("should pass map sources as an object", () => {
+      const mapper = new Mapper([
+        {
+          sources: { first: "crew.firstName", site: "$.launch.site" },
+          target: "summary",
+          transform: ({ first, site }) => `${first} @ ${site}`,
+        },
+      ]);
+
+      assert.deepEqual(mapper.map(source), { summary: "Sarah @ KSC" });
+    });
+
+    it("should write the values as is without a transform", () => {
+      const mapper = new Mapper(
+        [
+          {
+            sources: { site: "launch.site", last: "crew.lastName" },
+            target: "meta",
+          },
+        ],
+        { automap: false },
+      );
+
+      assert.deepEqual(mapper.map(source), {
+        meta: { site: "KSC", last: "Chen" },
+      });
+    });
+
+    it("should apply per-source defaults to null and undefined values", () => {
+      const mapper = new Mapper([
+        {
+          sources: [
+            "crew.firstName",
+            { source: "crew.middleName", defaultValue: "-" },
+            { source: "launch.pad", defaultValue: "TBD" },
+          ],
+          target: "values",
+        },
+      ]);
+
+      assert.deepEqual(mapper.map(source), {
+        values: ["Sarah", "-", "TBD"],
+      });
+    });
+
+    it("should skip the rule when a source is missing", () => {
+      let called = false;
+      const mapper = new Mapper(
+        [
+          {
+            sources: ["crew.firstName", "launch.pad"],
+            target: "label",
+            transform: () => {
+              called = true;
+              return "label";
+            },
+          },
+        ],
+        { automap: false },
+      );
+
+      assert.deepEqual(mapper.map(source), {});
+      assert.equal(called, false);
+    });
+
+    it("should map the rule default value when a source is missing", () => {
+      const mapper = new Mapper([
+        {
+          sources: ["crew.firstName", "launch.pad"],
+          target: "label",
+          defaultValue: ["unknown", "pad"],
+          transform: (values: string[]) => values.join(" "),
+        },
+      ]);
+
+      assert.deepEqual(mapper.map(source), { label: "unknown pad" });
+    });
+
+    it("should pass missing sources as undefined when skipUndefined is false", () => {
+      const mapper = new Mapper(
+        [
+          {
+            sources: { first: "crew.firstName", pad: "launch.pad" },
+            target: "values",
+            transform: (values) => Object.keys(values),
+          },
+        ],
+        { skipUndefined: false, automap: false },
+      );
+
+      assert.deepEqual(mapper.map(source), { values: ["first", "pad"] });
+    });
+
+    it("should keep null sources", () => {
+      const mapper = new Mapper([
+        { sources: ["crew.firstName", "crew.middleName"], target: "names" },
+      ]);
+
+      assert.deepEqual(mapper.map(source), { names: ["Sarah", null] });
+    });
+
+    it("should pass the values to filter and failOn", () => {
+      const mapper = new Mapper([
+        {
+          sources: ["crew.firstName", "crew.lastName"],
+          target: "fullName",
+          filter: ([first]) => first !== "Sarah",
+        },
+        {
+          sources: ["crew.firstName", "crew.lastName"],
+          target: "initials",
+          failOn: ([, last]) => last === "Chen",
+        },
+      ]);
+
+      assert.throws(
+        () => mapper.map(source),
+        /condition failed for rule with target 'initials'/,
+      );
+    });
+
+    it("should require every source without a default in strict mode", () => {
+      const mapper = new Mapper(
+        [
+          {
+            sources: [
+              "crew.firstName",
+              { source: "launch.pad", defaultValue: "TBD" },
+            ],
+            target: "values",
+          },
+          { sources: ["crew.firstName", "launch.date"], target: "date" },
+        ],
+        { strict: true },
+      );
+
+      assert.throws(
+        () => mapper.map(source),
+        (error: unknown) =>
+          error instanceof ExtractionError &&
+          error.index === 1 &&
+          error.source === "$.launch.date" &&
+          /required source '\$\.launch\.date' matched nothing/.test(
+            error.message,
+          ),
+      );
+    });
+
+    it("should work in compiled mode", () => {
+      const structure = [
+        {
+          sources: [
+            "crew.firstName",
+            { source: "launch.pad", defaultValue: 1 },
+          ],
+          target: "values",
+        },
+      ];
+
+      assert.deepEqual(
+        new Mapper(structure, { compiled: true }).map(source),
+        new Mapper(structure).map(source),
+      );
+    });
+
+    it("should not reverse multi-source rules", () => {
+      const mapper = new Mapper([
+        { sources: ["crew.firstName", "crew.lastName"], target: "names" },
+      ]);
+
+      assert.throws(
+        () => mapper.reverse(),
+        /multi-source rules cannot be inverted/,
+      );
+    });
+  });
+
+  describe("AsyncMapper", () => {
+    it("should pass the values to async transforms", async () => {
+      const mapper = new AsyncMapper([
+        {
+          sources: { first: "crew.firstName", last: "crew.lastName" },
+          target: "fullName",
+          transform: async ({ first, last }) => `${first} ${last}`,
+        },
+        {
+          sources: ["crew.firstName", "launch.pad"],
+          target: "skipped",
+        },
+      ]);
+
+      assert.deepEqual(await mapper.map(source), { fullName: "Sarah Chen" });
+    });
+  });
+
+  describe("validateStructure", () => {
+    it("should check multi-source rules", () => {
+      const diagnostics = validateStructure([
+        { sources: ["a", { source: "b", defaultValue: 1 }], target: "a" },
+        { sources: [], target: "b" },
+        { sources: ["a"], source: "a", target: "c" } as any,
+        { sources: { a: "crew[" }, target: "d" },
+        { sources: [{ defaultValue: 1 }], target: "e" } as any,
+      ]);
+
+      assert.deepEqual(
+        diagnostics.map((diagnostic) => [diagnostic.index, diagnostic.code]),
+        [
+          [1, "invalid-source"],
+          [2, "invalid-rule"],
+          [3, "invalid-source"],
+          [4, "invalid-source"],
+        ],
+      );
+      assert.match(diagnostics[1]!.message, /both 'sources' and 'source'/);
+    });
+  });
+});
@@ -0,0 +1,208 @@
+import { describe, it } from "mocha";
+import { strict as assert } from "assert";
+import { Mapper } from "../src/mapper.js";
+import { AsyncMapper } from "../src/async-mapper.js";
+import { validateStructure } from "../src/structure.js";
+import { StructureError } from "../src/errors.js";
+import type { Structure } from "../src/types/mapper.js";
+
+describe("Structure validation", () => {
+  const summarize = (structure: any) =>
+    validateStructure(structure).map(({ index, severity, code }) => [
+      index,
+      severity,
+      code,
+    ]);
+
+  describe("validateStructure", () => {
+    it("should accept a valid structure", () => {
+      const structure: Structure = [
+        ["mission.name", "title"],
+        ["$.crew[?(@.role=='pilot')].name", "pilot"],
+        ["$..site", "sites"],
+        ["crew[*].name", "names[0]"],
+        ["$['launch.window']", "launch\\.window"],
+        { constant: "planned", target: "status", transform: (v) => v },
+        {
+          source: "crew",
+          target: "members",
+          each: new Mapper([["name", "fullName"]]),
+        },
+      ];
+
+      assert.deepEqual(validateStructure(structure), []);
+    });
+
+    it("should report invalid rule shapes", () => {
+      assert.deepEqual(
+        summarize([
+          ["name"],
+          "name",
+          { target: "name" },
+          { source: "name", constant: 1, target: "name" },
+          { source: "name" },
+          { source: "name", target: "title", transform: "upper" },
+          { source: "name", target: "other", mapper: [], each: [] },
+          { source: 42, target: "count" },
+        ]),
+        [
+          [0, "error", "invalid-rule"],
+          [1, "error", "invalid-rule"],
+          [2, "error", "invalid-rule"],
+          [3, "error", "invalid-rule"],
+          [4, "error", "invalid-target"],
+          [5, "error", "invalid-rule"],
+          [6, "error", "invalid-rule"],
+          [7, "error", "invalid-source"],
+        ],
+      );
+    });
+
+    it("should warn about unknown rule properties", () => {
+      const [diagnostic] = validateStructure([
+        { source: "name", target: "title", tranform: (v: any) => v } as any,
+      ]);
+
+      assert.equal(diagnostic!.severity, "warning");
+      assert.equal(diagnostic!.code, "unknown-property");
+      assert.equal(diagnostic!.message, "unknown rule property 'tranform'");
+    });
+
+    it("should report malformed JSONPath sources", () => {
+      const diagnostics = validateStructure([
+        ["crew[0.name", "a"],
+        ["crew]", "b"],
+        ["crew[]", "c"],
+        ["crew[?(@.age <)]", "d"],
+        ["crew[?(@.role=='pilot)]", "e"],
+        ["mission.", "f"],
+        ["$.crew[?(@.missing.value == 1)]", "g"],
+      ]);
+
+      assert.deepEqual(
+        diagnostics.map(({ index, code }) => [index, code]),
+        [
+          [0, "invalid-source"],
+          [1, "invalid-source"],
+          [2, "invalid-source"],
+          [3, "invalid-source"],
+          [4, "invalid-source"],
+          [5, "invalid-source"],
+        ],
+      );
+      assert.match(diagnostics[0]!.message, /unclosed '\['/);
+      assert.match(diagnostics[3]!.message, /invalid expression/);
+    });
+
+    it("should report malformed dot-prop targets", () => {
+      assert.deepEqual(
+        summarize([
+          ["name", "crew[0"],
+          ["name", "crew[a]"],
+          ["name", "crew..name"],
+          ["name", ""],
+        ]),
+        [
+          [0, "error", "invalid-target"],
+          [1, "error", "invalid-target"],
+          [2, "error", "invalid-target"],
+          [3, "error", "invalid-target"],
+        ],
+      );
+    });
+
+    it("should warn about duplicate and conflicting targets", () => {
+      const diagnostics = validateStructure([
+        ["name", "mission.title"],
+        ["title", "mission.title"],
+        ["launch", "mission"],
+        ["crew", "crew[0]"],
+        ["pilot", "crew.0.name"],
+      ]);
+
+      assert.deepEqual(
+        diagnostics.map(({ index, severity, code }) => [index, severity, code]),
+        [
+          [1, "warning", "duplicate-target"],
+          [2, "warning", "target-conflict"],
+          [2, "warning", "target-conflict"],
+          [4, "warning", "target-conflict"],
+        ],
+      );
+      assert.equal(
+        diagnostics[1]!.message,
+        "target 'mission' conflicts with target 'mission.title' of rule 0",
+      );
+    });
+
+    it("should validate nested structures", () => {
+      const diagnostics = validateStructure([
+        {
+          source: "crew",
+          target: "members",
+          each: [["name", "fullName"], { target: "role" }],
+        },
+      ]);
+
+      assert.equal(diagnostics.length, 1);
+      assert.equal(diagnostics[0]!.index, 0);
+      assert.match(diagnostics[0]!.message, /^nested rule 1: rule must have/);
+    });
+  });
+
+  describe("validateOnCreate option", () => {
+    it("should throw on structures with errors", () => {
+      assert.throws(
+        () =>
+          new Mapper(
+            [["name", "title"], { source: "crew[0.name", target: "commander" }],
+            { validateOnCreate: true },
+          ),
+        (error: unknown) => {
+          assert.ok(error instanceof StructureError);
+          assert.equal(error.diagnostics.length, 1);
+          assert.match(error.message, /^Invalid structure: rule 1 \(source/);
+          return true;
+        },
+      );
+    });
+
+    it("should accept structures with warnings only", () => {
+      const mapper = new Mapper(
+        [
+          ["name", "title"],
+          ["fullName", "title"],
+        ],
+        { validateOnCreate: true },
+      );
+
+      assert.deepEqual(mapper.map({ name: "Apollo" }), { title: "Apollo" });
+    });
+
+    it("should validate replaced structures", () => {
+      const mapper = new Mapper([["name", "title"]], {
+        validateOnCreate: true,
+      });
+
+      assert.throws(
+        () => mapper.setStructure([{ target: "title" } as any]),
+        StructureError,
+      );
+      assert.deepEqual(mapper.getStructure(), [["name", "title"]]);
+    });
+
+    it("should validate async structures", () => {
+      assert.throws(
+        () =>
+          new AsyncMapper([{ source: "name", target: "" }], {
+            validateOnCreate: true,
+          }),
+        StructureError,
+      );
+    });
+
+    it("should not validate by default", () => {
+      assert.doesNotThrow(() => new Mapper([{ target: "title" } as any]));
+    });
+  });
+});
@@ -0,0 +1,297 @@
+import { describe, it } from "mocha";
+import { strict as assert } from "assert";
+import { Mapper } from "../src/mapper.js";
+import { AsyncMapper } from "../src/async-mapper.js";
+import { TransformError, ValidationError, WriteError } from "../src/errors.js";
+import { TransformRegistry } from "../src/registry.js";
+import { loadStructure, serializeStructure } from "../src/serialization.js";
+import { validateStructure } from "../src/structure.js";
+
+describe("Multi-target rules", () => {
+  const source = { mission: { id: "A3", fuel: 95 } };
+
+  describe("Mapper", () => {
+    it("should write the value to every target of an array", () => {
+      const mapper = new Mapper([
+        { source: "mission.id", target: ["id", "meta.missionId", "links[0]"] },
+      ]);
+
+      assert.deepEqual(mapper.map(source), {
+        id: "A3",
+        meta: { missionId: "A3" },
+        links: ["A3"],
+      });
+    });
+
+    it("should extract and transform once", () => {
+      let extracted = 0;
+      let transformed = 0;
+      const mapper = new Mapper([
+        {
+          source: "mission.id",
+          target: ["id", "meta.missionId"],
+          filter: () => ++extracted > 0,
+          transform: (id: string) => {
+            transformed++;
+            return id.toLowerCase();
+          },
+        },
+      ]);
+
+      assert.deepEqual(mapper.map(source), {
+        id: "a3",
+        meta: { missionId: "a3" },
+      });
+      assert.equal(extracted, 1);
+      assert.equal(transformed, 1);
+    });
+
+    it("should apply per-target transforms after the rule transform", () => {
+      const mapper = new Mapper(
+        [
+          {
+            source: "mission.id",
+            target: {
+              id: null,
+              "links.self": (id, src) =>
+                `/missions/${id}?fuel=${src.mission.fuel}`,
+            },
+            transform: (id: string) => id.toLowerCase(),
+          },
+        ],
+        { automap: false },
+      );
+
+      assert.deepEqual(mapper.map(source), {
+        id: "a3",
+        links: { self: "/missions/a3?fuel=95" },
+      });
+    });
+
+    it("should skip targets whose value is skipped", () => {
+      const mapper = new Mapper(
+        [
+          {
+            source: "mission.fuel",
+            target: {
+              fuel: null,
+              warning: (fuel) => (fuel < 50 ? "low" : null),
+            },
+          },
+        ],
+        { automap: false, skipNull: true },
+      );
+
+      assert.deepEqual(mapper.map(source), { fuel: 95 });
+    });
+
+    it("should write constants to every target", () => {
+      const mapper = new Mapper([
+        { constant: null, target: ["status", "meta.status"] },
+      ]);
+
+      assert.deepEqual(mapper.map({}), {
+        status: null,
+        meta: { status: null },
+      });
+    });
+
+    it("should report the target of a failing target transform", () => {
+      const mapper = new Mapper([
+        {
+          source: "mission.id",
+          target: {
+            id: null,
+            "links.self": () => {
+              throw new Error("no base url");
+            },
+          },
+        },
+      ]);
+
+      assert.throws(
+        () => mapper.map(source),
+        (error: unknown) =>
+          error instanceof TransformError &&
+          error.target === "links.self" &&
+          error.message ===
+            "Mapping failed: transform threw: no base url for rule with target 'links.self'",
+      );
+    });
+
+    it("should report the target of a failing write", () => {
+      const mapper = new Mapper([{ source: "mission.id", target: ["id", ""] }]);
+
+      assert.throws(
+        () => mapper.map(source),
+        (error: unknown) =>
+          error instanceof WriteError &&
+          error.target === "" &&
+          /cannot write value: Path cannot be empty for rule with target ''/.test(
+            error.message,
+          ),
+      );
+    });
+
+    it("should report every target for other failures", () => {
+      const mapper = new Mapper([
+        {
+          source: "mission.fuel",
+          target: ["fuel", "meta.fuel"],
+          failOn: (fuel) => fuel > 90,
+        },
+      ]);
+
+      assert.throws(
+        () => mapper.map(source),
+        (error: unknown) =>
+          error instanceof Error &&
+          (error as any).target === "fuel, meta.fuel" &&
+          /for rule with target 'fuel, meta.fuel'/.test(error.message),
+      );
+    });
+
+    it("should record every target for schema validation", () => {
+      const mapper = new Mapper(
+        [
+          {
+            source: "mission.id",
+            target: { id: null, "meta.number": (id) => id },
+          },
+        ],
+        {
+          targetSchema: {
+            type: "object",
+            properties: {
+              meta: {
+                type: "object",
+                properties: { number: { type: "number" } },
+              },
+            },
+          },
+        },
+      );
+
+      assert.throws(
+        () => mapper.map(source),
+        (error: unknown) =>
+          error instanceof ValidationError &&
+          error.issues[0]!.path === "meta.number" &&
+          error.issues[0]!.index === 0,
+      );
+    });
+
+    it("should work in compiled mode", () => {
+      const structure = [
+        { source: "mission.id", target: ["id", "meta.id"] },
+        {
+          source: "mission.fuel",
+          target: { fuel: (fuel: number) => fuel / 100 },
+        },
+      ];
+
+      assert.deepEqual(
+        new Mapper(structure, { compiled: true }).map(source),
+        new Mapper(structure).map(source),
+      );
+    });
+
+    it("should not reverse multi-target rules", () => {
+      const mapper = new Mapper([
+        { source: "mission.id", target: ["id", "meta.id"] },
+      ]);
+
+      assert.throws(
+        () => mapper.reverse(),
+        /multi-target rules cannot be inverted/,
+      );
+    });
+  });
+
+  describe("AsyncMapper", () => {
+    it("should await per-target transforms", async () => {
+      let transformed = 0;
+      const mapper = new AsyncMapper(
+        [
+          {
+            source: "mission.id",
+            target: {
+              id: null,
+              "links.self": async (id: string) => `/missions/${id}`,
+            },
+            transform: async (id: string) => {
+              transformed++;
+              return id;
+            },
+          },
+        ],
+        { automap: false },
+      );
+
+      assert.deepEqual(await mapper.map(source), {
+        id: "A3",
+        links: { self: "/missions/A3" },
+      });
+      assert.equal(transformed, 1);
+    });
+  });
+
+  describe("structures", () => {
+    it("should validate multi-target rules", () => {
+      const diagnostics = validateStructure([
+        { source: "a", target: ["a", "b.c"] },
+        { source: "a", target: [] },
+        { source: "a", target: { d: "nope" } as any },
+        { source: "a", target: ["b"] },
+        { source: "a", target: ["e."] },
+      ]);
+
+      assert.deepEqual(
+        diagnostics.map((diagnostic) => [diagnostic.index, diagnostic.code]),
+        [
+          [1, "invalid-target"],
+          [2, "invalid-target"],
+          [3, "target-conflict"],
+          [4, "invalid-target"],
+        ],
+      );
+    });
+
+    it("should load and serialize target transforms", () => {
+      const registry = new TransformRegistry().register(
+        "prefix",
+        (prefix: string) => (value) => `${prefix}${value}`,
+      );
+
+      const json = [
+        {
+          source: "mission.id",
+          target: { id: null, "links.self": ["prefix", "/missions/"] },
+        },
+      ];
+
+      const structure = loadStructure(json as any, registry);
+
+      assert.deepEqual(new Mapper(structure).map(source), {
+        id: "A3",
+        links: { self: "/missions/A3" },
+      });
+      assert.deepEqual(serializeStructure(structure), json);
+      assert.throws(
+        () =>
+          serializeStructure([
+            { source: "a", target: { a: (value: any) => value } },
+          ]),
+        /rule 0 \(transform of target 'a' is not a registered function\)/,
+      );
+      assert.throws(
+        () =>
+          loadStructure(
+            [{ source: "a", target: { a: "unknown" } }] as any,
+            registry,
+          ),
+        /target 'a': Unknown function 'unknown'/,
+      );
+    });
+  });
+});
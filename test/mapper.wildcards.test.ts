@@ -0,0 +1,283 @@
+import { describe, it } from "mocha";
+import { strict as assert } from "assert";
+import { Mapper } from "../src/mapper.js";
+import { AsyncMapper } from "../src/async-mapper.js";
+import { WriteError } from "../src/errors.js";
+import { validateStructure } from "../src/structure.js";
+import { reverseStructure } from "../src/reverse.js";
+import { splitWildcards } from "../src/mapper/paths.js";
+import type { Structure } from "../src/types/mapper.js";
+
+describe("Wildcard targets", () => {
+  const source = {
+    crew: [
+      { name: "Sarah Chen", role: "commander", hours: 2840 },
+      { name: "Marcus Rodriguez", role: "pilot", hours: 1650 },
+      { name: "Elena Petrova", role: "engineer", hours: null },
+    ],
+    modules: [
+      { id: "M1", sensors: [{ value: 1 }, { value: 2 }] },
+      { id: "M2", sensors: [{ value: 3 }] },
+    ],
+  };
+
+  describe("Mapper", () => {
+    it("should zip several wildcard sources into the same elements", () => {
+      const mapper = new Mapper(
+        [
+          ["crew[*].name", "members[*].fullName"],
+          ["crew[*].role", "members[*].position"],
+        ],
+        { automap: false },
+      );
+
+      assert.deepEqual(mapper.map(source), {
+        members: [
+          { fullName: "Sarah Chen", position: "commander" },
+          { fullName: "Marcus Rodriguez", position: "pilot" },
+          { fullName: "Elena Petrova", position: "engineer" },
+        ],
+      });
+    });
+
+    it("should write the elements themselves and transformed arrays", () => {
+      const mapper = new Mapper(
+        [
+          ["crew[*].role", "roles[*]"],
+          {
+            source: "crew[*].name",
+            target: "initials[*]",
+            transform: (names: string[]) => names.map((name) => name[0]),
+          },
+        ],
+        { automap: false },
+      );
+
+      assert.deepEqual(mapper.map(source), {
+        roles: ["commander", "pilot", "engineer"],
+        initials: ["S", "M", "E"],
+      });
+    });
+
+    it("should distribute nested arrays into nested wildcards", () => {
+      const mapper = new Mapper(
+        [
+          ["modules[*].id", "modules[*].name"],
+          {
+            source: "modules",
+            target: "modules[*].readings[*]",
+            transform: (modules: any[]) =>
+              modules.map((module) => module.sensors.map((s: any) => s.value)),
+          },
+        ],
+        { automap: false },
+      );
+
+      assert.deepEqual(mapper.map(source), {
+        modules: [
+          { name: "M1", readings: [1, 2] },
+          { name: "M2", readings: [3] },
+        ],
+      });
+    });
+
+    it("should fail when nested wildcards get flattened values", () => {
+      const mapper = new Mapper(
+        [["modules[*].sensors[*].value", "modules[*].readings[*]"]],
+        { automap: false },
+      );
+
+      assert.throws(
+        () => mapper.map(source),
+        (error: WriteError) =>
+          error instanceof WriteError &&
+          error.target === "modules[*].readings[*]" &&
+          /'modules\[\*\]\.readings\[\*\]' has nested wildcards and expects an array of arrays/.test(
+            error.message,
+          ),
+      );
+    });
+
+    it("should write a single match as a single element", () => {
+      const mapper = new Mapper(
+        [["crew[?(@.role=='pilot')].name", "pilots[*]"]],
+        {
+          automap: false,
+        },
+      );
+
+      assert.deepEqual(mapper.map(source), { pilots: ["Marcus Rodriguez"] });
+    });
+
+    it("should skip elements like values", () => {
+      const mapper = new Mapper(
+        [
+          {
+            source: "crew",
+            target: "hours[*]",
+            transform: (crew: any[]) => crew.map((member) => member.hours),
+          },
+        ],
+        { automap: false, skipNull: true },
+      );
+
+      const result = mapper.map(source);
+
+      assert.equal(result.hours.length, 2);
+      assert.equal(2 in result.hours, false);
+    });
+
+    it("should write an empty array for an empty array", () => {
+      const mapper = new Mapper(
+        [
+          {
+            source: "crew",
+            target: "members[*].name",
+            transform: (crew: any[]) => crew.map((member) => member.name),
+          },
+          ["crew[*].role", "members[*].role"],
+        ],
+        { automap: false },
+      );
+
+      // a wildcard JSONPath matching nothing is skipped like any missing source
+      assert.deepEqual(mapper.map({ crew: [] }), { members: [] });
+    });
+
+    describe("length mismatch", () => {
+      const structure: Structure = [["crew[*].name", "members[*].name"]];
+      const target = () => ({ members: [{ id: 1 }, { id: 2 }] });
+
+      it("should extend the target array by default", () => {
+        const mapper = new Mapper(structure, { automap: false });
+
+        assert.deepEqual(mapper.map(source, target()).members, [
+          { id: 1, name: "Sarah Chen" },
+          { id: 2, name: "Marcus Rodriguez" },
+          { name: "Elena Petrova" },
+        ]);
+      });
+
+      it("should stop at the shorter array", () => {
+        const mapper = new Mapper(structure, {
+          automap: false,
+          wildcardLengthMismatch: "shortest",
+        });
+
+        assert.deepEqual(mapper.map(source, target()).members, [
+          { id: 1, name: "Sarah Chen" },
+          { id: 2, name: "Marcus Rodriguez" },
+        ]);
+      });
+
+      it("should fail the rule", () => {
+        const mapper = new Mapper(structure, {
+          automap: false,
+          wildcardLengthMismatch: "error",
+        });
+
+        assert.throws(
+          () => mapper.map(source, target()),
+          (error: WriteError) =>
+            error instanceof WriteError &&
+            error.target === "members[*].name" &&
+            /3 elements do not match the 2 elements of 'members'/.test(
+              error.message,
+            ),
+        );
+        assert.doesNotThrow(() => mapper.map(source));
+      });
+    });
+
+    it("should work in compiled mode and in groups", () => {
+      const structure: Structure = [
+        {
+          sourcePrefix: "crew",
+          targetPrefix: "members",
+          rules: [
+            ["[*].name", "[*].fullName"],
+            ["[*].role", "[*].position"],
+          ],
+        },
+      ];
+
+      assert.deepEqual(
+        new Mapper(structure, { automap: false, compiled: true }).map(source),
+        new Mapper(structure, { automap: false }).map(source),
+      );
+      assert.equal(
+        new Mapper(structure, { automap: false }).map(source).members[2]
+          .position,
+        "engineer",
+      );
+    });
+  });
+
+  describe("AsyncMapper", () => {
+    it("should zip elements of rules running in parallel", async () => {
+      const delayed = (ms: number) => async (value: any) => {
+        await new Promise((resolve) => setTimeout(resolve, ms));
+        return value;
+      };
+      const mapper = new AsyncMapper(
+        [
+          {
+            source: "crew[*].name",
+            target: "members[*].fullName",
+            transform: delayed(10),
+          },
+          {
+            source: "crew[*].role",
+            target: "members[*].position",
+            transform: delayed(1),
+          },
+        ],
+        { automap: false, parallelRun: true },
+      );
+
+      const result = await mapper.map(source);
+
+      assert.deepEqual(result.members[1], {
+        fullName: "Marcus Rodriguez",
+        position: "pilot",
+      });
+    });
+  });
+
+  describe("paths", () => {
+    it("should split paths at unescaped wildcards", () => {
+      assert.equal(splitWildcards("members[0].name"), null);
+      assert.deepEqual(splitWildcards("members[*].name"), ["members", ".name"]);
+      assert.deepEqual(splitWildcards("a[*].b[*]"), ["a", ".b", ""]);
+      assert.equal(splitWildcards("a\\[*]"), null);
+    });
+  });
+
+  describe("structures", () => {
+    it("should validate wildcard targets", () => {
+      const diagnostics = validateStructure([
+        ["crew[*].name", "members[*].name"],
+        ["crew[*].role", "members[*].role"],
+        ["crew[*].name", "members[*]name"],
+        ["crew[*].name", "members[*].name"],
+      ]);
+
+      assert.deepEqual(
+        diagnostics.map((diagnostic) => [diagnostic.index, diagnostic.code]),
+        [
+          [2, "invalid-target"],
+          [3, "duplicate-target"],
+        ],
+      );
+    });
+
+    it("should not reverse wildcard targets", () => {
+      const result = reverseStructure([["crew[0].name", "members[*].name"]]);
+
+      assert.equal(
+        result.skipped[0]!.reason,
+        "wildcard targets cannot be inverted",
+      );
+    });
+  });
+});
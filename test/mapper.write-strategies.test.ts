@@ -0,0 +1,325 @@
+import { describe, it } from "mocha";
+import { strict as assert } from "assert";
+import { Mapper } from "../src/mapper.js";
+import { AsyncMapper } from "../src/async-mapper.js";
+import { WriteError } from "../src/errors.js";
+import { validateStructure } from "../src/structure.js";
+import { reverseStructure } from "../src/reverse.js";
+import { TransformRegistry } from "../src/registry.js";
+import { loadStructure, serializeStructure } from "../src/serialization.js";
+import type { Structure } from "../src/types/mapper.js";
+
+describe("Write strategies", () => {
+  const source = {
+    update: {
+      systems: { shields: { level: 80 }, sensors: ["radar"] },
+      crew: ["Elena Petrova"],
+      registry: "NCC-1701-A",
+    },
+  };
+
+  const existing = () => ({
+    systems: {
+      shields: { status: "operational", level: 40 },
+      sensors: ["lidar", "sonar"],
+    },
+    crew: ["Sarah Chen"],
+    registry: "NCC-1701",
+  });
+
+  describe("Mapper", () => {
+    it("should overwrite the existing value by default", () => {
+      const mapper = new Mapper([["update.systems", "systems"]], {
+        automap: false,
+      });
+
+      assert.deepEqual(
+        mapper.map(source, existing()).systems,
+        source.update.systems,
+      );
+    });
+
+    it("should merge plain objects deeply", () => {
+      const target = existing();
+      const shields = target.systems.shields;
+      const mapper = new Mapper(
+        [{ source: "update.systems", target: "systems", write: "deepMerge" }],
+        { automap: false },
+      );
+
+      assert.deepEqual(mapper.map(source, target).systems, {
+        shields: { status: "operational", level: 80 },
+        sensors: ["radar"],
+      });
+      assert.deepEqual(shields, { status: "operational", level: 40 });
+    });
+
+    it("should keep the existing properties for undefined ones", () => {
+      const mapper = new Mapper(
+        [
+          {
+            constant: { status: undefined, level: 90 },
+            target: "systems.shields",
+            write: "deepMerge",
+          },
+        ],
+        { automap: false },
+      );
+
+      assert.deepEqual(mapper.map(source, existing()).systems.shields, {
+        status: "operational",
+        level: 90,
+      });
+    });
+
+    it("should concat values and arrays", () => {
+      const mapper = new Mapper(
+        [
+          { source: "update.crew", target: "crew", write: "concat" },
+          { constant: "Marcus Rodriguez", target: "crew", write: "concat" },
+          { source: "update.crew", target: "reserve", write: "concat" },
+        ],
+        { automap: false },
+      );
+
+      assert.deepEqual(mapper.map(source, existing()), {
+        ...existing(),
+        crew: ["Sarah Chen", "Elena Petrova", "Marcus Rodriguez"],
+        reserve: ["Elena Petrova"],
+      });
+    });
+
+    it("should start a new array when concatenating a value to a missing path", () => {
+      const structure: Structure = [
+        { source: "update.registry", target: "registries", write: "concat" },
+        { constant: "NCC-1701", target: "registries", write: "concat" },
+      ];
+
+      assert.deepEqual(new Mapper(structure, { automap: false }).map(source), {
+        registries: ["NCC-1701-A", "NCC-1701"],
+      });
+      assert.deepEqual(
+        new Mapper(
+          [
+            ["update.registry", "registries"],
+            ["update.crew[0]", "registries"],
+          ],
+          { automap: false, write: "concat" },
+        ).map(source),
+        { registries: ["NCC-1701-A", "Elena Petrova"] },
+      );
+    });
+
+    it("should fail to concat to a value that is not an array", () => {
+      const mapper = new Mapper(
+        [{ source: "update.crew", target: "registry", write: "concat" }],
+        { automap: false },
+      );
+
+      assert.throws(
+        () => mapper.map(source, existing()),
+        (error: WriteError) =>
+          error instanceof WriteError &&
+          error.target === "registry" &&
+          /cannot concat value: 'registry' is not an array/.test(error.message),
+      );
+    });
+
+    it("should only set absent values", () => {
+      const mapper = new Mapper(
+        [
+          ["update.registry", "registry"],
+          { constant: "unknown", target: "registry", write: "setIfAbsent" },
+          { constant: "unknown", target: "class", write: "setIfAbsent" },
+        ],
+        { automap: false },
+      );
+
+      assert.deepEqual(mapper.map(source, { class: null }), {
+        registry: "NCC-1701-A",
+        class: null,
+      });
+    });
+
+    it("should call custom strategies with the existing value and the path", () => {
+      const calls: any[] = [];
+      const mapper = new Mapper(
+        [
+          {
+            source: "update.systems.sensors",
+            target: "systems.sensors",
+            write: (existing, value, path) => {
+              calls.push([existing, value, path]);
+              return [...new Set([...(existing ?? []), ...value])];
+            },
+          },
+        ],
+        { automap: false },
+      );
+
+      assert.deepEqual(mapper.map(source, existing()).systems.sensors, [
+        "lidar",
+        "sonar",
+        "radar",
+      ]);
+      assert.deepEqual(calls, [
+        [["lidar", "sonar"], ["radar"], "systems.sensors"],
+      ]);
+    });
+
+    it("should use the write option and let rules override it", () => {
+      const mapper = new Mapper(
+        [
+          ["update.systems", "systems"],
+          { source: "update.crew", target: "crew", write: "overwrite" },
+        ],
+        { automap: false, write: "deepMerge" },
+      );
+
+      const result = mapper.map(source, existing());
+
+      assert.equal(result.systems.shields.status, "operational");
+      assert.deepEqual(result.crew, ["Elena Petrova"]);
+    });
+
+    it("should merge over automapped values", () => {
+      const mapper = new Mapper(
+        [{ constant: { level: 95 }, target: "shields", write: "deepMerge" }],
+        { write: "overwrite" },
+      );
+
+      assert.deepEqual(
+        mapper.map(
+          { shields: { status: "degraded", level: 10 } },
+          { shields: { status: "nominal", level: 0 } },
+        ).shields,
+        { status: "degraded", level: 95 },
+      );
+    });
+
+    it("should apply to groups, sub-rules, wildcard elements and compiled mode", () => {
+      const structure: Structure = [
+        {
+          targetPrefix: "systems",
+          options: { write: "deepMerge" },
+          rules: [["update.systems.shields", "shields"]],
+        },
+        {
+          when: "update.registry == 'none'",
+          constant: "none",
+          target: "registry",
+          write: "setIfAbsent",
+          otherwise: { constant: "pending" },
+        },
+        {
+          constant: [{ rank: 1 }, { rank: 2 }],
+          target: "ranks[*]",
+          write: "deepMerge",
+        },
+      ];
+      const target = () => ({
+        ...existing(),
+        ranks: [{ name: "Sarah Chen" }],
+      });
+      const expected = {
+        ...existing(),
+        systems: {
+          shields: { status: "operational", level: 80 },
+          sensors: ["lidar", "sonar"],
+        },
+        ranks: [{ name: "Sarah Chen", rank: 1 }, { rank: 2 }],
+      };
+
+      assert.deepEqual(
+        new Mapper(structure, { automap: false }).map(source, target()),
+        expected,
+      );
+      assert.deepEqual(
+        new Mapper(structure, { automap: false, compiled: true }).map(
+          source,
+          target(),
+        ),
+        expected,
+      );
+    });
+  });
+
+  describe("AsyncMapper", () => {
+    it("should apply the strategies of parallel rules", async () => {
+      const mapper = new AsyncMapper(
+        [
+          {
+            source: "update.systems",
+            target: "systems",
+            write: "deepMerge",
+            transform: async (systems) => systems,
+          },
+          { source: "update.crew", target: "crew", write: "concat" },
+        ],
+        { automap: false, parallelRun: true },
+      );
+
+      const result = await mapper.map(source, existing());
+
+      assert.deepEqual(result.systems.shields, {
+        status: "operational",
+        level: 80,
+      });
+      assert.deepEqual(result.crew, ["Sarah Chen", "Elena Petrova"]);
+    });
+  });
+
+  describe("structures", () => {
+    it("should validate the write property", () => {
+      const diagnostics = validateStructure([
+        { source: "update.crew", target: "crew", write: "concat" },
+        { source: "update.crew", target: "crew", write: "append" as any },
+      ]);
+
+      assert.deepEqual(
+        diagnostics.map((diagnostic) => diagnostic.message),
+        [
+          "'write' must be 'overwrite', 'deepMerge', 'concat', 'setIfAbsent' or a function",
+        ],
+      );
+    });
+
+    it("should load and serialize strategies and references", () => {
+      const registry = new TransformRegistry().register(
+        "union",
+        () => (existing: any[] | undefined, value: any[]) => [
+          ...new Set([...(existing ?? []), ...value]),
+        ],
+      );
+      const json = [
+        { source: "update.crew", target: "crew", write: ["union"] },
+        { source: "update.systems", target: "systems", write: "deepMerge" },
+      ];
+
+      const structure = loadStructure(json as any, registry);
+
+      assert.deepEqual(
+        new Mapper(structure, { automap: false }).map(source, {
+          crew: ["Elena Petrova"],
+        }).crew,
+        ["Elena Petrova"],
+      );
+      assert.deepEqual(serializeStructure(structure), json);
+    });
+
+    it("should keep reversible strategies when reversing", () => {
+      const result = reverseStructure([
+        { source: "update.systems", target: "systems", write: "deepMerge" },
+        { source: "update.crew", target: "crew", write: "concat" },
+      ]);
+
+      assert.deepEqual(result.structure, [
+        { source: "$.systems", target: "update.systems", write: "deepMerge" },
+      ]);
+      assert.equal(
+        result.skipped[0]!.reason,
+        "concat and custom writes cannot be inverted",
+      );
+    });
+  });
+});
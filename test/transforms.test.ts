@@ -0,0 +1,311 @@
+import { describe, it } from "mocha";
+import { strict as assert } from "assert";
+import { Mapper } from "../src/mapper.js";
+import { TransformError } from "../src/errors.js";
+import { TransformRegistry } from "../src/registry.js";
+import { loadStructure } from "../src/serialization.js";
+import {
+  clamp,
+  compact,
+  first,
+  join,
+  last,
+  lowercase,
+  omit,
+  parseDate,
+  pick,
+  round,
+  split,
+  toBoolean,
+  toISODate,
+  toNumber,
+  toString,
+  trim,
+  unique,
+  uppercase,
+} from "../src/transforms.js";
+
+describe("Built-in transforms", () => {
+  it("should return null and undefined unchanged", () => {
+    const factories = [
+      toNumber(),
+      toBoolean(),
+      toString(),
+      trim(),
+      lowercase(),
+      uppercase(),
+      split(),
+      join(),
+      toISODate(),
+      parseDate(),
+      round(),
+      clamp(0, 1),
+      pick([]),
+      omit([]),
+      first(),
+      last(),
+      unique(),
+      compact(),
+    ];
+
+    for (const transform of factories) {
+      assert.equal(transform(null), null);
+      assert.equal(transform(undefined), undefined);
+    }
+  });
+
+  it("should return the fallback on invalid input when given", () => {
+    assert.equal(toNumber({ fallback: 0 })("abc"), 0);
+    assert.equal(trim({ fallback: null })(42), null);
+    assert.equal(round(2, { fallback: undefined })("1.5"), undefined);
+  });
+
+  describe("toNumber", () => {
+    it("should convert numbers, numeric strings and booleans", () => {
+      const transform = toNumber();
+
+      assert.equal(transform(42), 42);
+      assert.equal(transform(" 3.5 "), 3.5);
+      assert.equal(transform("1e3"), 1000);
+      assert.equal(transform(true), 1);
+      assert.equal(transform(false), 0);
+    });
+
+    it("should throw on invalid input", () => {
+      const transform = toNumber();
+
+      assert.throws(
+        () => transform("abc"),
+        /toNumber: expected a number, got "abc"/,
+      );
+      assert.throws(() => transform(""), TypeError);
+      assert.throws(() => transform(NaN), TypeError);
+      assert.throws(() => transform(Infinity), TypeError);
+      assert.throws(() => transform({}), /got an object/);
+    });
+  });
+
+  describe("toBoolean", () => {
+    it("should convert booleans, 0, 1 and known strings", () => {
+      const transform = toBoolean();
+
+      assert.equal(transform(true), true);
+      assert.equal(transform(0), false);
+      assert.equal(transform(1), true);
+      assert.equal(transform(" YES "), true);
+      assert.equal(transform("off"), false);
+    });
+
+    it("should throw on invalid input", () => {
+      assert.throws(() => toBoolean()("maybe"), TypeError);
+      assert.throws(() => toBoolean()(2), TypeError);
+    });
+  });
+
+  describe("toString", () => {
+    it("should convert primitives and dates", () => {
+      const transform = toString();
+
+      assert.equal(transform(42), "42");
+      assert.equal(transform(false), "false");
+      assert.equal(transform(10n), "10");
+      assert.equal(
+        transform(new Date("2027-07-15T14:30:00Z")),
+        "2027-07-15T14:30:00.000Z",
+      );
+    });
+
+    it("should throw on objects and invalid dates", () => {
+      assert.throws(() => toString()({ name: "Orion" }), /got an object/);
+      assert.throws(() => toString()(new Date("nope")), TypeError);
+    });
+  });
+
+  describe("string transforms", () => {
+    it("should trim, lowercase and uppercase strings", () => {
+      assert.equal(trim()("  Artemis "), "Artemis");
+      assert.equal(lowercase()("KSC"), "ksc");
+      assert.equal(uppercase()("ksc"), "KSC");
+    });
+
+    it("should split strings", () => {
+      assert.deepEqual(split()("a,b,c"), ["a", "b", "c"]);
+      assert.deepEqual(split(/\s*;\s*/)("a ; b;c"), ["a", "b", "c"]);
+    });
+
+    it("should throw on non-string input", () => {
+      assert.throws(() => trim()(42), /trim: expected a string, got 42/);
+      assert.throws(() => split()(["a"]), /got an array/);
+    });
+  });
+
+  describe("array transforms", () => {
+    it("should join arrays", () => {
+      assert.equal(join()(["a", "b"]), "a,b");
+      assert.equal(join(" / ")(["a", "b"]), "a / b");
+    });
+
+    it("should return the first and last elements", () => {
+      assert.equal(first()([1, 2, 3]), 1);
+      assert.equal(last()([1, 2, 3]), 3);
+      assert.equal(first()([]), undefined);
+      assert.equal(last()([]), undefined);
+    });
+
+    it("should remove duplicates", () => {
+      const crew = { name: "Sarah Chen" };
+
+      assert.deepEqual(unique()([1, 2, 1, NaN, NaN]), [1, 2, NaN]);
+      assert.deepEqual(unique()([crew, crew, { ...crew }]), [
+        crew,
+        { ...crew },
+      ]);
+    });
+
+    it("should remove null and undefined elements only", () => {
+      assert.deepEqual(compact()([0, null, "", undefined, false]), [
+        0,
+        "",
+        false,
+      ]);
+    });
+
+    it("should not modify the given array", () => {
+      const values = [1, 1, null];
+
+      unique()(values);
+      compact()(values);
+
+      assert.deepEqual(values, [1, 1, null]);
+    });
+
+    it("should throw on non-array input", () => {
+      assert.throws(() => first()("abc"), /first: expected an array/);
+      assert.throws(() => join()({}), TypeError);
+    });
+  });
+
+  describe("number transforms", () => {
+    it("should round numbers", () => {
+      assert.equal(round()(2.5), 3);
+      assert.equal(round(2)(1.005), 1.01);
+      assert.equal(round(1)(-1.25), -1.2);
+      assert.equal(round(8)(1.5e-7), 1.5e-7);
+      assert.equal(round(-2)(1250), 1300);
+    });
+
+    it("should clamp numbers", () => {
+      const transform = clamp(0, 100);
+
+      assert.equal(transform(-5), 0);
+      assert.equal(transform(50), 50);
+      assert.equal(transform(150), 100);
+    });
+
+    it("should throw on non-number input", () => {
+      assert.throws(() => round()("1.5"), /round: expected a number/);
+      assert.throws(() => clamp(0, 1)(NaN), TypeError);
+    });
+  });
+
+  describe("object transforms", () => {
+    const launch = { site: "KSC", pad: "39A", window: "July" };
+
+    it("should pick keys", () => {
+      assert.deepEqual(pick(["site", "pad", "missing"])(launch), {
+        site: "KSC",
+        pad: "39A",
+      });
+    });
+
+    it("should omit keys", () => {
+      assert.deepEqual(omit(["window"])(launch), { site: "KSC", pad: "39A" });
+    });
+
+    it("should throw on non-object input", () => {
+      assert.throws(() => pick(["a"])([]), /pick: expected an object/);
+      assert.throws(() => omit(["a"])("a"), TypeError);
+    });
+  });
+
+  describe("date transforms", () => {
+    it("should convert dates, timestamps and strings to ISO strings", () => {
+      const transform = toISODate();
+
+      assert.equal(transform(new Date(0)), "1970-01-01T00:00:00.000Z");
+      assert.equal(transform(0), "1970-01-01T00:00:00.000Z");
+      assert.equal(
+        transform("2027-07-15T14:30:00Z"),
+        "2027-07-15T14:30:00.000Z",
+      );
+    });
+
+    it("should parse dates into new Date instances", () => {
+      const date = new Date("2027-07-15T14:30:00Z");
+      const parsed = parseDate()(date);
+
+      assert.notEqual(parsed, date);
+      assert.equal(parsed.getTime(), date.getTime());
+      assert.equal(
+        parseDate()("2027-07-15T14:30:00Z").getTime(),
+        date.getTime(),
+      );
+    });
+
+    it("should throw on invalid dates", () => {
+      assert.throws(
+        () => toISODate()("not a date"),
+        /toISODate: expected a date/,
+      );
+      assert.throws(() => parseDate()(true), TypeError);
+    });
+  });
+
+  describe("with a mapper", () => {
+    it("should be usable as rule transforms", () => {
+      const mapper = new Mapper([
+        { source: "crew", target: "crew", transform: toNumber() },
+        { source: "name", target: "title", transform: trim() },
+        { source: "fuel", target: "fuel", transform: toNumber() },
+      ]);
+
+      assert.deepEqual(
+        mapper.map({ crew: "4", name: " Artemis ", fuel: null }),
+        { crew: 4, title: "Artemis", fuel: null },
+      );
+    });
+
+    it("should report invalid input as a TransformError", () => {
+      const mapper = new Mapper([
+        { source: "crew", target: "crew", transform: toNumber() },
+      ]);
+
+      assert.throws(
+        () => mapper.map({ crew: "four" }),
+        (error: unknown) =>
+          error instanceof TransformError &&
+          error.cause instanceof TypeError &&
+          /transform threw/.test(error.message),
+      );
+    });
+
+    it("should register as named references", () => {
+      const registry = new TransformRegistry()
+        .register("toNumber", toNumber)
+        .register("round", round);
+
+      const structure = loadStructure(
+        [
+          { source: "crew", target: "crew", transform: "toNumber" },
+          { source: "fuel", target: "fuel", transform: ["round", 1] },
+        ],
+        registry,
+      );
+
+      assert.deepEqual(new Mapper(structure).map({ crew: "4", fuel: 95.25 }), {
+        crew: 4,
+        fuel: 95.3,
+      });
+    });
+  });
+});